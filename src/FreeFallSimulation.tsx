@@ -1,39 +1,188 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Play, Pause, RotateCcw, Download, Globe, Moon, Settings, BarChart3, Eye, EyeOff } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useId } from 'react';
+import { Play, Pause, RotateCcw, Download, Settings, BarChart3, Eye, EyeOff, StepBack, StepForward, Plus, Trash2, ZoomIn, ZoomOut, Maximize2, Crosshair, Languages, Link, Check, X, Ruler, MoveUpRight, ChevronsRight, ArrowDownToDot, LucideIcon } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import Modal from './Modal';
+import IntegratorComparison from './components/IntegratorComparison';
+import DataTable from './components/DataTable';
+import SimulationCharts, { ChartRun } from './components/SimulationCharts';
+import EnergyGauge from './components/EnergyGauge';
+import ExportDialog from './components/ExportDialog';
+import MeasurementPanel from './components/MeasurementPanel';
+import CurveFitPanel from './components/CurveFitPanel';
+import HistoryPanel from './components/HistoryPanel';
+import BodyPicker from './components/BodyPicker';
+import LessonPanel from './components/LessonPanel';
+import ParameterInput from './components/ParameterInput';
+import { MeasuredData, MeasuredSeries, alignToStart, measuredHeightAt } from './measurements';
+import { ExportRun } from './export';
+import { accelerationAt, advance, createState, sampleIndexAt, toSimulationData, SimulationData, SimulationState as EngineState } from './physics/engine';
+import { DRAG_MODELS, DragModel, DragParams, terminalVelocity } from './physics/drag';
+import { INTEGRATOR_OPTIONS, IntegratorKind } from './physics/integrators';
+import { GRAVITY_MODELS, GravityModel, constantGravityError, gravityAt } from './physics/gravity';
+import { ForceKind, forcesOn } from './physics/forces';
+import { INCLINE_SHAPES, InclineParams, InclineShape, holdsAtRest, rolls, slopeSpeed } from './physics/incline';
+import { energyBreakdown, initialEnergy } from './physics/energy';
+import { FlightPreview, previewFlight } from './physics/trajectory';
+import { BODY_ICONS, CUSTOM_BODY, CelestialBody, findBody } from './bodies';
+import {
+  DEFAULT_SETTINGS,
+  MAX_OBJECTS,
+  MOTION_MODES,
+  MotionMode,
+  SimObject,
+  createObject,
+  gravityOf,
+  peakHeightOf,
+  rampOf,
+  reachOf,
+  toSimulationParams,
+  withAlpha
+} from './objects';
+import {
+  centerOn,
+  fitCamera,
+  rulerStep,
+  screenToWorld,
+  screenToWorldX,
+  worldToScreen,
+  worldToScreenX,
+  zoomAt
+} from './camera';
+import { useSimulationRuns } from './hooks/use-simulation-runs';
+import { useI18n } from './hooks/use-i18n';
+import { useUnits } from './hooks/use-units';
+import { useParameterForm } from './hooks/use-parameter-form';
+import { useLibrary } from './hooks/use-library';
+import { useBodies } from './hooks/use-bodies';
+import { LOCALES, Locale, formatDateTime } from './i18n';
+import { PRESETS, PRESET_IDS, ParameterKey, PresetId, objectChanges, parameterValues } from './parameters';
+import { UNITS, UNIT_PRESETS, UNIT_QUANTITIES, UNIT_SYSTEMS, UnitQuantity, systemOf } from './units';
+import { Scenario, keepLocked, parseScenario, scenarioToQuery } from './scenario';
+import { SavedRun, SavedScenario, restoreStates } from './storage';
+import { Lesson } from './lessons';
 
-interface SimulationData {
-  time: number;
-  height: number;
-  velocity: number;
-  acceleration: number;
-  displacement: number;
-  mass: number;
-}
+const PLAYBACK_SPEEDS = [0.1, 0.25, 1, 2, 5];
+
+// Width of the meter ruler along the left edge of the canvas (px)
+const RULER_WIDTH = 44;
+
+// How far the view may zoom relative to the auto-fit
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 100;
+
+// Zoom applied per button press or wheel notch
+const ZOOM_STEP = 1.25;
 
-interface SimulationState {
-  isRunning: boolean;
-  time: number;
-  currentHeight: number;
-  currentVelocity: number;
-  displacement: number;
-  ballY: number;
+interface CameraView {
+  zoom: number;
+  // Shift (m) of the view away from the fitted position
+  panX: number;
+  panY: number;
 }
 
-const PLANETS = {
-  earth: { name: 'Dünya', gravity: 9.81, icon: Globe },
-  moon: { name: 'Ay', gravity: 1.62, icon: Moon },
-  mars: { name: 'Mars', gravity: 3.71, icon: Settings },
-  custom: { name: 'Özel', gravity: 9.81, icon: Settings }
+const FIT_VIEW: CameraView = { zoom: 1, panX: 0, panY: 0 };
+
+// Projectile runs need room to the side, so the canvas widens for them
+const CANVAS_WIDTHS: Record<MotionMode, number> = { vertical: 320, projectile: 640, incline: 640 };
+const CANVAS_HEIGHT = 480;
+
+// Simulated seconds between rows of dataHistory
+const SAMPLE_INTERVALS = [0.01, 0.05, 0.1, 0.25, 0.5];
+
+// Simulated seconds between spoken readouts; 0 only announces impacts
+const ANNOUNCE_INTERVALS = [0, 1, 2, 5, 10];
+
+// Line styles of the compared saved runs, one per comparison slot
+const OVERLAY_DASHES = ['6 4', '2 3'];
+
+// Arrow lengths on the canvas, in px per m/s and per m/s². Overlay arrows
+// are capped so fast objects stay on screen; their labels carry the values.
+const VELOCITY_SCALE = 3;
+const ACCELERATION_SCALE = 6;
+const MAX_ARROW_LENGTH = 160;
+
+// Toggleable arrows and diagrams drawn over the scene
+type CanvasOverlay = 'velocity' | 'acceleration' | 'forces';
+
+const CANVAS_OVERLAYS: { key: CanvasOverlay; icon: LucideIcon }[] = [
+  { key: 'velocity', icon: MoveUpRight },
+  { key: 'acceleration', icon: ChevronsRight },
+  { key: 'forces', icon: ArrowDownToDot }
+];
+
+const VELOCITY_COLOR = '#FBBF24';
+const ACCELERATION_COLOR = '#E600FF';
+
+const FORCE_COLORS: Record<ForceKind, string> = {
+  weight: '#60A5FA',
+  normal: '#34D399',
+  friction: '#F87171',
+  drag: '#FBBF24'
 };
 
+// Free-body inset: the weight is always drawn this long (px)
+const FREE_BODY_WEIGHT_LENGTH = 40;
+const FREE_BODY_WIDTH = 170;
+
+function capLength(x: number, y: number, max: number): { x: number; y: number } {
+  const length = Math.hypot(x, y);
+  return length > max ? { x: (x * max) / length, y: (y * max) / length } : { x, y };
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, x: number, y: number, dx: number, dy: number, color: string, label = '') {
+  const length = Math.hypot(dx, dy);
+  if (length < 1) return;
+  
+  const head = Math.min(8, length / 2);
+  const ux = dx / length;
+  const uy = dy / length;
+  
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + dx, y + dy);
+  ctx.stroke();
+  
+  ctx.beginPath();
+  ctx.moveTo(x + dx, y + dy);
+  ctx.lineTo(x + dx - head * (ux - uy / 2), y + dy - head * (uy + ux / 2));
+  ctx.lineTo(x + dx - head * (ux + uy / 2), y + dy - head * (uy - ux / 2));
+  ctx.closePath();
+  ctx.fill();
+  
+  ctx.font = '11px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x + dx + ux * 12, y + dy + uy * 12);
+  ctx.restore();
+}
+
+// Sample of a saved run at a time of the current one; blank after it ended
+function overlaySampleAt(data: SimulationData[], time: number): SimulationData | null {
+  const index = sampleIndexAt(data, time);
+  return index >= 0 && (index < data.length - 1 || data[index].time >= time - 5e-4) ? data[index] : null;
+}
+
 function FreeFallSimulation() {
+  const { locale, setLocale, t, formatNumber } = useI18n();
+  const { choice: unitChoice, setUnits, symbol, toDisplay, fromDisplay } = useUnits();
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const intervalRef = useRef<number | null>(null);
+  const chartsRef = useRef<HTMLDivElement>(null);
   
   // Modal and table visibility state
   const [isDataModalOpen, setIsDataModalOpen] = useState(false);
   const [isDataTableVisible, setIsDataTableVisible] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  
+  // Text read out by screen readers through the live region
+  const [announceInterval, setAnnounceInterval] = useState(1);
+  const [announcement, setAnnouncement] = useState('');
+  const announceIntervalId = useId();
+  const canvasDescriptionId = useId();
   
   // Pagination state for main table
   const [mainTableCurrentPage, setMainTableCurrentPage] = useState(1);
@@ -42,32 +191,93 @@ function FreeFallSimulation() {
   const [modalCurrentPage, setModalCurrentPage] = useState(1);
   const itemsPerPage = 20;
   
-  // Simulation parameters
-  const [initialVelocity, setInitialVelocity] = useState(0);
-  const [initialHeight, setInitialHeight] = useState(50);
-  const [mass, setMass] = useState(1);
-  const [planet, setPlanet] = useState<keyof typeof PLANETS>('earth');
-  const [customGravity, setCustomGravity] = useState(9.81);
-  
-  // Simulation state
-  const [simulationState, setSimulationState] = useState<SimulationState>({
-    isRunning: false,
-    time: 0,
-    currentHeight: 50,
-    currentVelocity: 0,
-    displacement: 0,
-    ballY: 0
-  });
+  // The scenario lives in the URL; a shared link or a reload starts from it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [linked] = useState(() => parseScenario(searchParams, t.objects.defaultName));
+  const [ignoredParams, setIgnoredParams] = useState(linked?.ignored ?? []);
+  const [linkStatus, setLinkStatus] = useState<'copied' | 'failed' | null>(null);
+  
+  // Objects falling side by side; the control panel edits the selected one
+  const [objects, setObjects] = useState<SimObject[]>(() => linked?.scenario.objects ?? [createObject(1, t.objects.defaultName(1))]);
+  const [selectedId, setSelectedId] = useState(1);
   
-  const [dataHistory, setDataHistory] = useState<SimulationData[]>([]);
-  const [trail, setTrail] = useState<number[]>([]);
+  // Settings shared by every object
+  const initialSettings = linked?.scenario.settings ?? DEFAULT_SETTINGS;
+  const [mode, setMode] = useState<MotionMode>(initialSettings.mode);
+  const [integrator, setIntegrator] = useState<IntegratorKind>(initialSettings.integrator);
+  const [timeStep, setTimeStep] = useState(initialSettings.timeStep);
   
-  const SCALE = 4;
-  const CANVAS_WIDTH = 320;
-  const CANVAS_HEIGHT = 480;
+  // Playback settings; these can change while the simulation runs
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [sampleInterval, setSampleInterval] = useState(0.1);
   
-  const gravity = planet === 'custom' ? customGravity : PLANETS[planet].gravity;
-  const ballRadius = Math.min(20, 8 + mass * 2);
+  // Time under the cursor in the charts or table, mirrored on the canvas
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  
+  // Constant g is flagged once it is off by more than this at the apex (%)
+  const [gravityWarningPercent, setGravityWarningPercent] = useState(1);
+  
+  // Built-in and user-defined bodies
+  const { bodies, bodyName, saveBody: storeBody, removeBody: forgetBody } = useBodies();
+  
+  // Running guided lesson; the parameters it locks cannot be edited
+  const [lesson, setLesson] = useState<Lesson | null>(null);
+  
+  // Saved runs overlaid on the charts and table
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  
+  // Imported experiment data, compared with the selected object
+  const [measurement, setMeasurement] = useState<MeasuredData | null>(null);
+  const [measuredSeriesIndex, setMeasuredSeriesIndex] = useState(0);
+  const [alignMeasuredStart, setAlignMeasuredStart] = useState(false);
+  
+  // Zoom and pan relative to the auto-fit; follow mode centers the selected
+  // object instead of using the pan
+  const [cameraView, setCameraView] = useState<CameraView>(FIT_VIEW);
+  const [followSelected, setFollowSelected] = useState(false);
+  const [canvasOverlays, setCanvasOverlays] = useState<CanvasOverlay[]>([]);
+  const [isUnitPickerOpen, setIsUnitPickerOpen] = useState(false);
+  const unitSystem = systemOf(unitChoice);
+  const panStartRef = useRef<{ x: number; y: number; panX: number; panY: number } | null>(null);
+  
+  const CANVAS_WIDTH = CANVAS_WIDTHS[mode];
+  
+  const runObjects = useMemo(() => objects.map(object => ({
+    id: object.id,
+    params: toSimulationParams(object, { mode, integrator, timeStep })
+  })), [objects, mode, integrator, timeStep]);
+  
+  const scenarioQuery = useMemo(
+    () => scenarioToQuery({ settings: { mode, integrator, timeStep }, objects }),
+    [objects, mode, integrator, timeStep]
+  );
+  
+  // Completed runs go to the history once, together with the scenario behind them;
+  // the parameters are locked while running, so the query still matches
+  const library = useLibrary();
+  const { saveRun } = library;
+  const handleRunFinish = useCallback((states: Record<number, EngineState[]>) => {
+    saveRun(scenarioQuery, runObjects.map(({ id, params }) => ({ params, states: states[id] ?? [] })));
+  }, [saveRun, scenarioQuery, runObjects]);
+  
+  const runs = useSimulationRuns(runObjects, { playbackSpeed, sampleInterval, onFinish: handleRunFinish });
+  const { stateAt } = runs;
+  const isLocked = runs.isRunning || runs.isPaused;
+  // Keys as in the scenario query, e.g. 'height' or 'planet'
+  const isFieldLocked = (key: string) => isLocked || Boolean(lesson?.locked.includes(key));
+  
+  const selected = objects.find(object => object.id === selectedId) ?? objects[0];
+  const selectedParams = runObjects.find(({ id }) => id === selected.id).params;
+  const selectedState = runs.states[selected.id];
+  const dataHistory = useMemo(() => runs.histories[selected.id] ?? [], [runs.histories, selected.id]);
+  
+  const gravity = gravityOf(selected);
+  const terminalSpeed = terminalVelocity(selected.mass, gravity, selected.drag);
+  const energy = energyBreakdown(selectedState);
+  // The engine reports vertical components; along a ramp they are the
+  // along-slope values scaled by sinθ
+  const slopeSine = Math.sin((selected.incline.angle * Math.PI) / 180);
+  const constantGravityErrorPercent = constantGravityError(selected.bodyRadius, peakHeightOf(selected, mode)) * 100;
   
   // Pagination calculations for main table
   const mainTotalPages = Math.ceil(dataHistory.length / itemsPerPage);
@@ -81,79 +291,481 @@ function FreeFallSimulation() {
   const modalEndIndex = modalStartIndex + itemsPerPage;
   const modalCurrentData = dataHistory.slice(modalStartIndex, modalEndIndex);
   
-  const drawGrid = useCallback((ctx: CanvasRenderingContext2D) => {
-    ctx.strokeStyle = 'rgba(0, 245, 255, 0.1)';
-    ctx.lineWidth = 0.5;
+  const hoverIndex = hoverTime !== null ? sampleIndexAt(dataHistory, hoverTime) : null;
+  
+  const measuredSeries = useMemo<MeasuredSeries | null>(() => {
+    const series = measurement?.series[measuredSeriesIndex];
+    if (!series) return null;
+    return alignMeasuredStart ? { ...series, points: alignToStart(series.points) } : series;
+  }, [measurement, measuredSeriesIndex, alignMeasuredStart]);
+  
+  const measuredHeightsFor = (rows: typeof dataHistory) => {
+    return measuredSeries ? rows.map(row => measuredHeightAt(measuredSeries.points, row.time)) : null;
+  };
+  
+  // Compared runs keep their objects' colors and differ by dash pattern
+  const comparedRuns = useMemo(() => compareIds.flatMap((id, slot) => {
+    const run = library.runs.find(saved => saved.id === id);
+    const parsed = run && parseScenario(new URLSearchParams(run.query), t.objects.defaultName);
+    if (!parsed) return [];
     
-    // Horizontal grid lines
-    for (let i = 0; i <= CANVAS_HEIGHT; i += 20) {
+    return [{
+      id,
+      label: run.name ?? formatDateTime(run.savedAt, locale),
+      dash: OVERLAY_DASHES[slot],
+      objects: parsed.scenario.objects.map((object, index) => ({
+        object,
+        data: run.objects[index] ? restoreStates(run.objects[index]).map(toSimulationData) : []
+      }))
+    }];
+  }), [compareIds, library.runs, t, locale]);
+  
+  // The table compares the selected object with its counterpart in each run
+  const selectedIndex = objects.indexOf(selected);
+  const overlaysFor = (rows: typeof dataHistory) => comparedRuns.map(run => {
+    const { data } = run.objects[selectedIndex] ?? run.objects[0];
+    return { name: run.label, rows: rows.map(row => overlaySampleAt(data, row.time)) };
+  });
+  
+  // Whole flights run ahead of time for the drawn path and the readouts
+  const previews = useMemo(() => Object.fromEntries(
+    runObjects.map(({ id, params }) => [id, previewFlight(params)])
+  ) as Record<number, FlightPreview>, [runObjects]);
+  const flight = previews[selected.id].summary;
+  
+  // Objects on height-dependent gravity are also run with constant g, sampled
+  // on the same boundaries, for the difference chart. The chart needs run
+  // data, and constant g comes to rest first, so the reference is only run
+  // once there is data and for no longer than the preview.
+  const constantGravityRuns = useMemo(() => !runs.hasRun ? {} : Object.fromEntries(
+    runObjects
+      .filter(({ params }) => params.gravityModel !== 'constant')
+      .map(({ id, params }) => {
+        const { samples } = advance(createState({ ...params, gravityModel: 'constant' }), previews[id].duration, sampleInterval);
+        return [id, samples.map(toSimulationData)];
+      })
+  ) as Record<number, SimulationData[]>, [runs.hasRun, runObjects, previews, sampleInterval]);
+  
+  const chartRuns = useMemo<ChartRun[]>(() => [
+    ...objects.map(object => ({
+      id: object.id,
+      name: object.name,
+      color: object.color.main,
+      data: runs.histories[object.id] ?? [],
+      reference: constantGravityRuns[object.id]
+    })),
+    ...comparedRuns.flatMap(run => run.objects.map(({ object, data }, index) => ({
+      id: `${run.id}-${index}`,
+      name: `${run.label} · ${object.name}`,
+      color: object.color.main,
+      data,
+      dash: run.dash
+    })))
+  ], [objects, runs.histories, comparedRuns, constantGravityRuns]);
+  
+  // The part of the canvas right of the ruler
+  const viewport = useMemo(() => ({ width: CANVAS_WIDTH - RULER_WIDTH, height: CANVAS_HEIGHT }), [CANVAS_WIDTH]);
+  
+  // Auto-fit frames the highest and furthest points any object can reach;
+  // zoom and pan are kept relative to that fit
+  const fit = useMemo(() => fitCamera({
+    top: Math.max(...objects.map(object => peakHeightOf(object, mode))),
+    left: Math.min(...objects.map(object => reachOf(object, mode).left)),
+    right: Math.max(...objects.map(object => reachOf(object, mode).right))
+  }, viewport), [objects, mode, viewport]);
+  
+  const camera = useMemo(() => {
+    const view = {
+      left: fit.left + cameraView.panX,
+      bottom: fit.bottom + cameraView.panY,
+      scale: fit.scale * cameraView.zoom
+    };
+    return followSelected ? centerOn(view, selectedState.x, selectedState.height, viewport) : view;
+  }, [fit, cameraView, followSelected, selectedState.x, selectedState.height, viewport]);
+  
+  // In vertical mode each object falls in its own lane to the right of the
+  // ruler; projectiles and ramps share the scene and are placed by their x
+  // position
+  const laneWidth = (CANVAS_WIDTH - RULER_WIDTH) / objects.length;
+  const laneLeft = useCallback((index: number) => RULER_WIDTH + laneWidth * index, [laneWidth]);
+  const laneCenter = useCallback((index: number) => laneLeft(index) + laneWidth / 2, [laneLeft, laneWidth]);
+  
+  const ballRadiusFor = useCallback((object: SimObject) => {
+    return Math.min(20, 8 + object.mass * 2, laneWidth / 2 - 6);
+  }, [laneWidth]);
+  
+  // On a ramp the body sits on the slope, so its center is one radius out
+  // along the surface normal (sinθ, cosθ) rather than straight up
+  const surfaceNormalFor = useCallback((object: SimObject) => {
+    if (mode !== 'incline') return { x: 0, y: 1 };
+    const slope = (object.incline.angle * Math.PI) / 180;
+    return { x: Math.sin(slope), y: Math.cos(slope) };
+  }, [mode]);
+  
+  const ballXFor = useCallback((index: number, state: EngineState) => {
+    if (mode === 'vertical') return laneCenter(index);
+    const object = objects[index];
+    return RULER_WIDTH + worldToScreenX(camera, state.x) + ballRadiusFor(object) * surfaceNormalFor(object).x;
+  }, [mode, objects, laneCenter, camera, ballRadiusFor, surfaceNormalFor]);
+  
+  // The ball rests on its height, so its center sits one radius above it
+  const ballYFor = useCallback((object: SimObject, height: number) => {
+    return worldToScreen(camera, height, CANVAS_HEIGHT) - ballRadiusFor(object) * surfaceNormalFor(object).y;
+  }, [camera, ballRadiusFor, surfaceNormalFor]);
+  
+  // Height scale along the left edge with faint level lines across the
+  // lanes; ticks fall on round values of the display unit
+  const drawRuler = useCallback((ctx: CanvasRenderingContext2D) => {
+    const step = rulerStep(camera.scale * fromDisplay('length', 1));
+    const lowest = Math.ceil(toDisplay('length', screenToWorld(camera, CANVAS_HEIGHT, CANVAS_HEIGHT)) / step) * step;
+    const highest = toDisplay('length', screenToWorld(camera, 0, CANVAS_HEIGHT));
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(13, 17, 23, 0.95)';
+    ctx.fillRect(0, 0, RULER_WIDTH, CANVAS_HEIGHT);
+    
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    
+    for (let height = lowest; height <= highest; height += step) {
+      const y = worldToScreen(camera, fromDisplay('length', height), CANVAS_HEIGHT);
+      
+      ctx.strokeStyle = 'rgba(0, 245, 255, 0.1)';
+      ctx.lineWidth = 0.5;
       ctx.beginPath();
-      ctx.moveTo(0, i);
-      ctx.lineTo(CANVAS_WIDTH, i);
+      ctx.moveTo(RULER_WIDTH, y);
+      ctx.lineTo(CANVAS_WIDTH, y);
       ctx.stroke();
+      
+      ctx.strokeStyle = 'rgba(0, 245, 255, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(RULER_WIDTH - 6, y);
+      ctx.lineTo(RULER_WIDTH, y);
+      ctx.stroke();
+      
+      ctx.fillStyle = 'rgba(230, 237, 243, 0.8)';
+      ctx.fillText(`${formatNumber(height, decimals)} ${symbol('length')}`, RULER_WIDTH - 8, y);
     }
     
-    // Vertical grid lines
-    for (let i = 0; i <= CANVAS_WIDTH; i += 20) {
+    ctx.strokeStyle = 'rgba(0, 245, 255, 0.4)';
+    ctx.beginPath();
+    ctx.moveTo(RULER_WIDTH, 0);
+    ctx.lineTo(RULER_WIDTH, CANVAS_HEIGHT);
+    ctx.stroke();
+    ctx.restore();
+  }, [camera, CANVAS_WIDTH, formatNumber, symbol, toDisplay, fromDisplay]);
+  
+  // Distance scale along the ground for projectile runs
+  const drawGroundRuler = useCallback((ctx: CanvasRenderingContext2D) => {
+    const step = rulerStep(camera.scale * fromDisplay('length', 1));
+    const leftmost = Math.ceil(toDisplay('length', screenToWorldX(camera, 0)) / step) * step;
+    const rightmost = toDisplay('length', screenToWorldX(camera, viewport.width));
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    const groundY = worldToScreen(camera, 0, CANVAS_HEIGHT);
+    const labelY = Math.min(groundY + 12, CANVAS_HEIGHT - 6);
+    
+    ctx.save();
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.strokeStyle = 'rgba(0, 245, 255, 0.6)';
+    ctx.fillStyle = 'rgba(230, 237, 243, 0.8)';
+    ctx.lineWidth = 1;
+    
+    for (let x = leftmost; x <= rightmost; x += step) {
+      const xPos = RULER_WIDTH + worldToScreenX(camera, fromDisplay('length', x));
+      
       ctx.beginPath();
-      ctx.moveTo(i, 0);
-      ctx.lineTo(i, CANVAS_HEIGHT);
+      ctx.moveTo(xPos, groundY);
+      ctx.lineTo(xPos, groundY + 4);
       ctx.stroke();
+      ctx.fillText(`${formatNumber(x, decimals)} ${symbol('length')}`, xPos, labelY);
     }
+    ctx.restore();
+  }, [camera, viewport.width, formatNumber, symbol, toDisplay, fromDisplay]);
+  
+  // Path of the whole motion ahead of time, with the apex and first landing
+  const drawTrajectory = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, preview: FlightPreview) => {
+    ctx.save();
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = withAlpha(object.color.main, 0.45);
+    ctx.lineWidth = 1.5;
+    
+    ctx.beginPath();
+    preview.path.forEach((point, index) => {
+      const xPos = RULER_WIDTH + worldToScreenX(camera, point.x);
+      const yPos = ballYFor(object, point.height);
+      if (index === 0) {
+        ctx.moveTo(xPos, yPos);
+      } else {
+        ctx.lineTo(xPos, yPos);
+      }
+    });
+    ctx.stroke();
+    
+    const { summary } = preview;
+    if (summary) {
+      ctx.setLineDash([]);
+      ctx.fillStyle = object.color.main;
+      
+      const marks = [summary.apex, { x: preview.path[0].x + summary.range, height: 0 }];
+      marks.forEach(mark => {
+        ctx.beginPath();
+        ctx.arc(RULER_WIDTH + worldToScreenX(camera, mark.x), worldToScreen(camera, mark.height, CANVAS_HEIGHT), 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+    ctx.restore();
+  }, [camera, ballYFor]);
+  
+  // Each object's ramp in its color, from the highest point it can reach down
+  // to the ground, with the slope angle marked at the foot
+  const drawRamp = useCallback((ctx: CanvasRenderingContext2D, object: SimObject) => {
+    const ramp = rampOf(object, mode);
+    const topX = RULER_WIDTH + worldToScreenX(camera, ramp.topX);
+    const footX = RULER_WIDTH + worldToScreenX(camera, ramp.footX);
+    const topY = worldToScreen(camera, ramp.topHeight, CANVAS_HEIGHT);
+    const groundY = worldToScreen(camera, 0, CANVAS_HEIGHT);
+    const slope = (object.incline.angle * Math.PI) / 180;
+    
+    ctx.save();
+    ctx.fillStyle = withAlpha(object.color.main, 0.12);
+    ctx.beginPath();
+    ctx.moveTo(topX, topY);
+    ctx.lineTo(footX, groundY);
+    ctx.lineTo(topX, groundY);
+    ctx.closePath();
+    ctx.fill();
+    
+    ctx.strokeStyle = withAlpha(object.color.main, 0.7);
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(topX, topY);
+    ctx.lineTo(footX, groundY);
+    ctx.stroke();
+    
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(footX, groundY, 28, Math.PI, Math.PI + slope);
+    ctx.stroke();
+    
+    ctx.fillStyle = object.color.main;
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(`${formatNumber(object.incline.angle, 0)}°`, footX - 32, groundY - 2);
+    ctx.restore();
+  }, [mode, camera, formatNumber]);
+  
+  // Gravity split into its components along and into the slope, and the
+  // resulting acceleration along it; what is left over is friction and drag
+  const drawInclineComponents = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, state: EngineState, xPos: number, yPos: number) => {
+    const slope = (object.incline.angle * Math.PI) / 180;
+    const gravity = gravityAt(state.params, state.height);
+    const along = state.acceleration / Math.sin(slope);
+    const friction = along - gravity * Math.sin(slope);
+    // Down the slope and into it, in screen coordinates
+    const down = { x: Math.cos(slope), y: Math.sin(slope) };
+    const into = { x: -Math.sin(slope), y: Math.cos(slope) };
+    const parallel = gravity * Math.sin(slope) * ACCELERATION_SCALE;
+    const normal = gravity * Math.cos(slope) * ACCELERATION_SCALE;
+    
+    drawArrow(ctx, xPos, yPos, 0, gravity * ACCELERATION_SCALE, 'rgba(230, 237, 243, 0.9)', 'g');
+    drawArrow(ctx, xPos, yPos, down.x * parallel, down.y * parallel, '#60A5FA', 'g sin θ');
+    drawArrow(ctx, xPos, yPos, into.x * normal, into.y * normal, '#34D399', 'g cos θ');
+    if (Math.abs(friction) > 0.01) {
+      drawArrow(ctx, xPos, yPos, down.x * friction * ACCELERATION_SCALE, down.y * friction * ACCELERATION_SCALE, '#F87171', 'f/m');
+    }
+    drawArrow(ctx, xPos, yPos, down.x * along * ACCELERATION_SCALE, down.y * along * ACCELERATION_SCALE, '#E600FF', 'a');
   }, []);
   
-  const drawBall = useCallback((ctx: CanvasRenderingContext2D, yPos: number) => {
+  // Velocity and acceleration of a moving object, from its center
+  const drawMotionVectors = useCallback((ctx: CanvasRenderingContext2D, state: EngineState, xPos: number, yPos: number) => {
+    if (state.landed) return;
+    
+    if (canvasOverlays.includes('velocity')) {
+      const speed = Math.hypot(state.velocity, state.horizontalVelocity);
+      const arrow = capLength(state.horizontalVelocity * VELOCITY_SCALE, state.velocity * VELOCITY_SCALE, MAX_ARROW_LENGTH);
+      drawArrow(ctx, xPos, yPos, arrow.x, arrow.y, VELOCITY_COLOR, `${formatNumber(toDisplay('speed', speed))} ${symbol('speed')}`);
+    }
+    
+    if (canvasOverlays.includes('acceleration')) {
+      const { vertical, horizontal } = accelerationAt(state.params, state);
+      const arrow = capLength(horizontal * ACCELERATION_SCALE, vertical * ACCELERATION_SCALE, MAX_ARROW_LENGTH);
+      const magnitude = toDisplay('acceleration', Math.hypot(vertical, horizontal));
+      drawArrow(ctx, xPos, yPos, arrow.x, arrow.y, ACCELERATION_COLOR, `${formatNumber(magnitude)} ${symbol('acceleration')}`);
+    }
+  }, [canvasOverlays, formatNumber, symbol, toDisplay]);
+  
+  // Forces on the selected object in the top right corner, scaled so the
+  // weight always has the same length, with the magnitudes listed below
+  const drawFreeBody = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, state: EngineState) => {
+    const forces = forcesOn(state);
+    const scale = FREE_BODY_WEIGHT_LENGTH / Math.max(forces[0].vertical, 1e-9);
+    const left = CANVAS_WIDTH - FREE_BODY_WIDTH - 8;
+    const top = 8;
+    const centerX = left + FREE_BODY_WIDTH / 2;
+    const centerY = top + 80;
+    const height = 150 + forces.length * 16;
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(13, 17, 23, 0.85)';
+    ctx.strokeStyle = 'rgba(0, 245, 255, 0.4)';
+    ctx.lineWidth = 1;
+    ctx.fillRect(left, top, FREE_BODY_WIDTH, height);
+    ctx.strokeRect(left, top, FREE_BODY_WIDTH, height);
+    
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = 'rgba(230, 237, 243, 0.9)';
+    ctx.fillText(t.forces.title(object.name), left + 8, top + 6);
+    
+    forces.forEach(force => {
+      const arrow = capLength(force.horizontal * scale, force.vertical * scale, FREE_BODY_WEIGHT_LENGTH * 1.5);
+      drawArrow(ctx, centerX, centerY, arrow.x, arrow.y, FORCE_COLORS[force.kind]);
+    });
+    
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, 4, 0, Math.PI * 2);
+    ctx.fillStyle = object.color.main;
+    ctx.fill();
+    
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    forces.forEach((force, index) => {
+      const y = top + 150 + index * 16;
+      ctx.fillStyle = FORCE_COLORS[force.kind];
+      ctx.fillRect(left + 8, y - 4, 8, 8);
+      ctx.fillStyle = 'rgba(230, 237, 243, 0.9)';
+      ctx.fillText(
+        `${t.forces[force.kind]}: ${formatNumber(Math.hypot(force.vertical, force.horizontal))} N`,
+        left + 22,
+        y
+      );
+    });
+    ctx.restore();
+  }, [CANVAS_WIDTH, t, formatNumber]);
+  
+  const drawLanes = useCallback((ctx: CanvasRenderingContext2D) => {
+    if (mode !== 'vertical' || objects.length < 2) return;
+    
+    ctx.save();
+    ctx.setLineDash([6, 6]);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 1;
+    
+    for (let i = 1; i < objects.length; i++) {
+      ctx.beginPath();
+      ctx.moveTo(laneLeft(i), 0);
+      ctx.lineTo(laneLeft(i), CANVAS_HEIGHT);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }, [mode, objects.length, laneLeft]);
+  
+  const drawBall = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, xPos: number, yPos: number) => {
+    const ballRadius = ballRadiusFor(object);
+    
     // Ball shadow
     ctx.beginPath();
-    ctx.arc(CANVAS_WIDTH / 2 + 2, yPos + 2, ballRadius, 0, Math.PI * 2);
+    ctx.arc(xPos + 2, yPos + 2, ballRadius, 0, Math.PI * 2);
     ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
     ctx.fill();
     
     // Main ball
     ctx.beginPath();
-    ctx.arc(CANVAS_WIDTH / 2, yPos, ballRadius, 0, Math.PI * 2);
+    ctx.arc(xPos, yPos, ballRadius, 0, Math.PI * 2);
     
     // Gradient ball
     const gradient = ctx.createRadialGradient(
-      CANVAS_WIDTH / 2 - ballRadius / 3,
+      xPos - ballRadius / 3,
       yPos - ballRadius / 3,
       0,
-      CANVAS_WIDTH / 2,
+      xPos,
       yPos,
       ballRadius
     );
-    gradient.addColorStop(0, '#00F5FF');
-    gradient.addColorStop(1, '#0077AA');
+    gradient.addColorStop(0, object.color.main);
+    gradient.addColorStop(1, object.color.dark);
     
     ctx.fillStyle = gradient;
     ctx.fill();
     
     // Ball outline
-    ctx.strokeStyle = 'rgba(0, 245, 255, 0.8)';
+    ctx.strokeStyle = withAlpha(object.color.main, 0.8);
     ctx.lineWidth = 2;
     ctx.stroke();
-  }, [ballRadius]);
+  }, [ballRadiusFor]);
+  
+  // A block sits square on its ramp, tilted with the slope
+  const drawBlock = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, xPos: number, yPos: number) => {
+    const half = ballRadiusFor(object);
+    
+    ctx.save();
+    ctx.translate(xPos, yPos);
+    ctx.rotate((object.incline.angle * Math.PI) / 180);
+    
+    const gradient = ctx.createLinearGradient(-half, -half, half, half);
+    gradient.addColorStop(0, object.color.main);
+    gradient.addColorStop(1, object.color.dark);
+    
+    ctx.fillStyle = gradient;
+    ctx.fillRect(-half, -half, half * 2, half * 2);
+    ctx.strokeStyle = withAlpha(object.color.main, 0.8);
+    ctx.lineWidth = 2;
+    ctx.strokeRect(-half, -half, half * 2, half * 2);
+    ctx.restore();
+  }, [ballRadiusFor]);
   
-  const drawTrail = useCallback((ctx: CanvasRenderingContext2D, trail: number[]) => {
-    trail.forEach((yPos, index) => {
+  const drawTrail = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, trail: { x: number; y: number }[]) => {
+    trail.forEach((point, index) => {
       const opacity = index / trail.length;
       const radius = (index / trail.length) * 4 + 1;
       
       ctx.beginPath();
-      ctx.arc(CANVAS_WIDTH / 2, yPos, radius, 0, Math.PI * 2);
-      ctx.fillStyle = `rgba(0, 245, 255, ${opacity * 0.6})`;
+      ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+      ctx.fillStyle = withAlpha(object.color.main, opacity * 0.6);
       ctx.fill();
     });
   }, []);
   
+  // Ghost ball and level line for the time hovered in the charts or table
+  const drawHoverMarker = useCallback((ctx: CanvasRenderingContext2D, object: SimObject, xPos: number, yPos: number) => {
+    ctx.save();
+    ctx.setLineDash([4, 4]);
+    ctx.strokeStyle = 'rgba(230, 0, 255, 0.8)';
+    ctx.lineWidth = 1;
+    
+    const ballRadius = ballRadiusFor(object);
+    const halfWidth = mode === 'vertical' ? laneWidth / 2 : ballRadius * 2;
+    
+    ctx.beginPath();
+    ctx.moveTo(xPos - halfWidth, yPos);
+    ctx.lineTo(xPos + halfWidth, yPos);
+    ctx.stroke();
+    
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(xPos, yPos, ballRadius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }, [mode, laneWidth, ballRadiusFor]);
+  
   const drawGround = useCallback((ctx: CanvasRenderingContext2D) => {
+    const groundY = worldToScreen(camera, 0, CANVAS_HEIGHT);
+    
     ctx.fillStyle = '#444';
-    ctx.fillRect(0, CANVAS_HEIGHT - 4, CANVAS_WIDTH, 4);
+    ctx.fillRect(RULER_WIDTH, groundY, CANVAS_WIDTH - RULER_WIDTH, Math.max(0, CANVAS_HEIGHT - groundY));
     
     // Ground glow effect
     ctx.fillStyle = 'rgba(0, 245, 255, 0.2)';
-    ctx.fillRect(0, CANVAS_HEIGHT - 6, CANVAS_WIDTH, 2);
-  }, []);
+    ctx.fillRect(RULER_WIDTH, groundY - 2, CANVAS_WIDTH - RULER_WIDTH, 2);
+  }, [camera, CANVAS_WIDTH]);
   
   const renderCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -166,166 +778,386 @@ function FreeFallSimulation() {
     ctx.fillStyle = 'rgba(13, 17, 23, 0.9)';
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
     
-    drawGrid(ctx);
+    drawLanes(ctx);
     drawGround(ctx);
-    drawTrail(ctx, trail);
-    drawBall(ctx, simulationState.ballY);
-  }, [simulationState.ballY, trail, drawGrid, drawGround, drawTrail, drawBall]);
-  
-  const calculateInitialBallY = useCallback(() => {
-    const y = CANVAS_HEIGHT - ballRadius - 4 - (initialHeight * SCALE);
-    return Math.max(ballRadius, y);
-  }, [initialHeight, ballRadius]);
-  
-  const startSimulation = useCallback(() => {
-    if (simulationState.isRunning) return;
-    
-    const initialBallY = calculateInitialBallY();
     
-    setSimulationState({
-      isRunning: true,
-      time: 0,
-      currentHeight: initialHeight,
-      currentVelocity: initialVelocity,
-      displacement: 0,
-      ballY: initialBallY
-    });
-    
-    setDataHistory([]);
-    setTrail([]);
-    setMainTableCurrentPage(1); // Reset main table pagination
-    setModalCurrentPage(1); // Reset modal pagination
+    if (mode === 'projectile') {
+      drawGroundRuler(ctx);
+      objects.forEach(object => drawTrajectory(ctx, object, previews[object.id]));
+    }
     
-    let time = 0;
+    if (mode === 'incline') {
+      drawGroundRuler(ctx);
+      objects.forEach(object => drawRamp(ctx, object));
+    }
     
-    intervalRef.current = window.setInterval(() => {
-      time += 0.1;
-      
-      const velocity = initialVelocity + gravity * time;
-      const displacement = initialVelocity * time + 0.5 * gravity * time * time;
-      const currentHeight = Math.max(0, initialHeight - displacement);
-      const ballY = initialBallY + displacement * SCALE;
-      const actualBallY = Math.min(ballY, CANVAS_HEIGHT - ballRadius - 4);
-      
-      setSimulationState(prev => ({
-        ...prev,
-        time,
-        currentHeight,
-        currentVelocity: velocity,
-        displacement,
-        ballY: actualBallY
+    objects.forEach((object, index) => {
+      const trail = (runs.trails[object.id] ?? []).map(state => ({
+        x: ballXFor(index, state),
+        y: ballYFor(object, state.height)
       }));
+      drawTrail(ctx, object, trail);
       
-      setTrail(prev => {
-        const newTrail = [...prev, actualBallY];
-        return newTrail.length > 30 ? newTrail.slice(-30) : newTrail;
-      });
-      
-      const newData: SimulationData = {
-        time: parseFloat(time.toFixed(2)),
-        height: parseFloat(currentHeight.toFixed(2)),
-        velocity: parseFloat(velocity.toFixed(2)),
-        acceleration: parseFloat(gravity.toFixed(2)),
-        displacement: parseFloat(displacement.toFixed(2)),
-        mass: parseFloat(mass.toFixed(1))
-      };
-      
-      setDataHistory(prev => [...prev, newData]);
+      const hovered = hoverTime !== null ? stateAt(object.id, hoverTime) : undefined;
+      if (hovered) {
+        drawHoverMarker(ctx, object, ballXFor(index, hovered), ballYFor(object, hovered.height));
+      }
       
-      // Stop when ball reaches ground
-      if (currentHeight <= 0.001) {
-        stopSimulation();
-        bounceEffect();
+      const state = runs.states[object.id];
+      const drawBody = mode === 'incline' && object.incline.shape === 'block' ? drawBlock : drawBall;
+      drawBody(ctx, object, ballXFor(index, state), ballYFor(object, state.height));
+      if (mode === 'incline' && object.id === selected.id) {
+        drawInclineComponents(ctx, object, state, ballXFor(index, state), ballYFor(object, state.height));
       }
-    }, 100);
+      drawMotionVectors(ctx, state, ballXFor(index, state), ballYFor(object, state.height));
+    });
+    
+    // Drawn last so the labels stay on top of anything passing behind them
+    drawRuler(ctx);
+    if (canvasOverlays.includes('forces')) {
+      drawFreeBody(ctx, selected, runs.states[selected.id]);
+    }
   }, [
-    simulationState.isRunning,
-    initialVelocity,
-    initialHeight,
-    mass,
-    gravity,
-    ballRadius,
-    calculateInitialBallY
+    CANVAS_WIDTH,
+    objects,
+    runs.states,
+    runs.trails,
+    stateAt,
+    hoverTime,
+    mode,
+    previews,
+    selected,
+    canvasOverlays,
+    ballXFor,
+    ballYFor,
+    drawRuler,
+    drawGroundRuler,
+    drawTrajectory,
+    drawRamp,
+    drawInclineComponents,
+    drawLanes,
+    drawGround,
+    drawTrail,
+    drawBall,
+    drawBlock,
+    drawHoverMarker,
+    drawMotionVectors,
+    drawFreeBody
   ]);
   
-  const stopSimulation = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    
-    setSimulationState(prev => ({
-      ...prev,
-      isRunning: false
-    }));
+  const resetTables = useCallback(() => {
+    setHoverTime(null);
+    setMainTableCurrentPage(1);
+    setModalCurrentPage(1);
   }, []);
   
+  const startSimulation = useCallback(() => {
+    if (!runs.isPaused) {
+      resetTables();
+    }
+    runs.start();
+  }, [runs, resetTables]);
+  
+  const stepForward = useCallback(() => {
+    if (!runs.hasRun) {
+      resetTables();
+    }
+    runs.stepForward();
+  }, [runs, resetTables]);
+  
   const restartSimulation = useCallback(() => {
-    stopSimulation();
-    
-    setSimulationState({
-      isRunning: false,
-      time: 0,
-      currentHeight: initialHeight,
-      currentVelocity: initialVelocity,
-      displacement: 0,
-      ballY: calculateInitialBallY()
+    runs.restart();
+    resetTables();
+  }, [runs, resetTables]);
+  
+  const updateSelected = useCallback((changes: Partial<SimObject>) => {
+    setObjects(prev => prev.map(object => object.id === selectedId ? { ...object, ...changes } : object));
+  }, [selectedId]);
+  
+  const updateDrag = useCallback((changes: Partial<DragParams>) => {
+    updateSelected({ drag: { ...selected.drag, ...changes } });
+  }, [selected.drag, updateSelected]);
+  
+  const updateIncline = useCallback((changes: Partial<InclineParams>) => {
+    updateSelected({ incline: { ...selected.incline, ...changes } });
+  }, [selected.incline, updateSelected]);
+  
+  // Numeric fields of the selected object, plus the shared time step
+  const selectedParameters = useMemo(
+    () => parameterValues(selected, timeStep, gravityWarningPercent),
+    [selected, timeStep, gravityWarningPercent]
+  );
+  const changeParameter = useCallback((key: ParameterKey, value: number) => {
+    if (key === 'dt') {
+      setTimeStep(value);
+    } else if (key === 'gravityWarning') {
+      setGravityWarningPercent(value);
+    } else {
+      updateSelected(objectChanges(selected, key, value));
+    }
+  }, [selected, updateSelected]);
+  const parameterForm = useParameterForm(selectedParameters, changeParameter);
+  
+  const changePlanet = useCallback((body: CelestialBody) => {
+    // The custom body starts from the current values so they can be tweaked
+    if (body.kind === 'custom') {
+      updateSelected({ planet: body.id });
+      return;
+    }
+    
+    // Each body brings its own gravity and atmosphere; the user can still
+    // override the density
+    updateSelected({
+      planet: body.id,
+      gravity: body.gravity,
+      bodyRadius: body.radius,
+      drag: { ...selected.drag, fluidDensity: body.atmosphereDensity }
     });
+  }, [selected.drag, updateSelected]);
+  
+  // Objects on an edited body follow its new values
+  const saveBody = useCallback((body: CelestialBody) => {
+    storeBody(body);
+    setObjects(prev => prev.map(object => object.planet === body.id
+      ? {
+        ...object,
+        gravity: body.gravity,
+        bodyRadius: body.radius,
+        drag: { ...object.drag, fluidDensity: body.atmosphereDensity }
+      }
+      : object));
+  }, [storeBody]);
+  
+  // Objects on a deleted body keep its values as a custom body
+  const removeBody = useCallback((id: string) => {
+    forgetBody(id);
+    setObjects(prev => prev.map(object => object.planet === id ? { ...object, planet: CUSTOM_BODY } : object));
+  }, [forgetBody]);
+  
+  // The scene is laid out differently for each mode, so the view starts over
+  const changeMode = useCallback((next: MotionMode) => {
+    setMode(next);
+    setCameraView(FIT_VIEW);
+    runs.restart();
+    resetTables();
+  }, [runs, resetTables]);
+  
+  // A new object starts as a copy of the selected one so a single change
+  // (mass, planet, ...) makes a comparison
+  const addObject = useCallback(() => {
+    if (objects.length >= MAX_OBJECTS) return;
+    
+    const id = Math.max(...objects.map(object => object.id)) + 1;
+    setObjects(prev => [...prev, createObject(id, t.objects.defaultName(id), selected)]);
+    setSelectedId(id);
+    runs.restart();
+    resetTables();
+  }, [objects, selected, runs, resetTables, t]);
+  
+  const removeSelected = useCallback(() => {
+    if (objects.length <= 1) return;
     
-    setDataHistory([]);
-    setTrail([]);
+    const remaining = objects.filter(object => object.id !== selectedId);
+    setObjects(remaining);
+    setSelectedId(remaining[0].id);
+    runs.restart();
+    resetTables();
+  }, [objects, selectedId, runs, resetTables]);
+  
+  const selectObject = useCallback((id: number) => {
+    setSelectedId(id);
     setMainTableCurrentPage(1);
     setModalCurrentPage(1);
-  }, [stopSimulation, initialHeight, initialVelocity, calculateInitialBallY]);
-  
-  const bounceEffect = useCallback(() => {
-    let bounceCount = 0;
-    const bounceInterval = setInterval(() => {
-      setSimulationState(prev => ({
-        ...prev,
-        ballY: bounceCount % 2 === 0 
-          ? CANVAS_HEIGHT - ballRadius - 4 - 10
-          : CANVAS_HEIGHT - ballRadius - 4
-      }));
-      
-      bounceCount++;
-      if (bounceCount >= 6) {
-        clearInterval(bounceInterval);
-        setSimulationState(prev => ({
-          ...prev,
-          ballY: CANVAS_HEIGHT - ballRadius - 4
-        }));
+  }, []);
+  
+  const exportRuns = useMemo<ExportRun[]>(() => objects.map(object => ({
+    object,
+    bodyName: bodyName(object.planet),
+    params: runObjects.find(({ id }) => id === object.id).params,
+    data: runs.histories[object.id] ?? []
+  })), [objects, bodyName, runObjects, runs.histories]);
+  
+  const scenarioLink = `${window.location.origin}${window.location.pathname}?${scenarioQuery}`;
+  
+  // Comparing first keeps the navigation from feeding back into itself
+  useEffect(() => {
+    if (searchParams.toString() !== scenarioQuery) {
+      setSearchParams(new URLSearchParams(scenarioQuery), { replace: true });
+    }
+  }, [scenarioQuery, searchParams, setSearchParams]);
+  
+  // A stale "copied" note would describe an older link
+  useEffect(() => {
+    setLinkStatus(null);
+  }, [scenarioQuery]);
+  
+  const copyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(scenarioLink);
+      setLinkStatus('copied');
+    } catch {
+      setLinkStatus('failed');
+    }
+  }, [scenarioLink]);
+  
+  // Replaces the whole setup; only a starting lesson bypasses its locks
+  const replaceScenario = useCallback((scenario: Scenario) => {
+    setObjects(scenario.objects);
+    setSelectedId(scenario.objects[0].id);
+    setMode(scenario.settings.mode);
+    setIntegrator(scenario.settings.integrator);
+    setTimeStep(scenario.settings.timeStep);
+    setCameraView(FIT_VIEW);
+    runs.restart();
+    resetTables();
+  }, [runs, resetTables]);
+  
+  // During a lesson the parameters it locks keep their values
+  const applyScenario = useCallback((scenario: Scenario) => {
+    replaceScenario(lesson
+      ? keepLocked(scenario, { settings: { mode, integrator, timeStep }, objects }, lesson.locked)
+      : scenario);
+  }, [replaceScenario, lesson, mode, integrator, timeStep, objects]);
+  
+  // Saved items go through the same validation as shared links
+  const loadSavedScenario = useCallback((saved: SavedScenario) => {
+    const parsed = parseScenario(new URLSearchParams(saved.query), t.objects.defaultName);
+    if (!parsed) return;
+    
+    applyScenario(parsed.scenario);
+    setIgnoredParams(parsed.ignored);
+  }, [applyScenario, t]);
+  
+  // A preset replaces the selected object's setup and switches to its mode;
+  // the other objects and the numerical settings stay as they are
+  const applyPreset = useCallback((id: PresetId) => {
+    const parsed = parseScenario(new URLSearchParams(PRESETS[id]), t.objects.defaultName);
+    if (!parsed) return;
+    
+    const [preset] = parsed.scenario.objects;
+    updateSelected({ ...preset, id: selected.id, name: selected.name, color: selected.color });
+    if (parsed.scenario.settings.mode !== mode) changeMode(parsed.scenario.settings.mode);
+  }, [selected, mode, updateSelected, changeMode, t]);
+  
+  const startLesson = useCallback((next: Lesson) => {
+    const parsed = parseScenario(new URLSearchParams(next.scenario), t.objects.defaultName);
+    if (!parsed) return;
+    
+    replaceScenario(parsed.scenario);
+    setIgnoredParams(parsed.ignored);
+    setLesson(next);
+  }, [replaceScenario, t]);
+  
+  // A run is shown as recorded rather than simulated again, so it cannot
+  // be loaded around a lesson's locked parameters
+  const loadSavedRun = useCallback((run: SavedRun) => {
+    if (lesson) return;
+    
+    const parsed = parseScenario(new URLSearchParams(run.query), t.objects.defaultName);
+    if (!parsed) return;
+    
+    const { scenario } = parsed;
+    applyScenario(scenario);
+    setIgnoredParams(parsed.ignored);
+    runs.load(
+      scenario.objects.map(object => ({ id: object.id, params: toSimulationParams(object, scenario.settings) })),
+      Object.fromEntries(scenario.objects.map((object, index) => [object.id, run.objects[index] ? restoreStates(run.objects[index]) : []]))
+    );
+  }, [applyScenario, runs, lesson, t]);
+  
+  const openExport = useCallback(() => {
+    setIsDataModalOpen(false);
+    setIsExportOpen(true);
+  }, []);
+  
+  // Hovering a chart brings the matching row onto the visible table page
+  const handleChartHover = useCallback((time: number | null) => {
+    setHoverTime(time);
+    if (time !== null) {
+      const index = sampleIndexAt(dataHistory, time);
+      if (index >= 0) {
+        setMainTableCurrentPage(Math.floor(index / itemsPerPage) + 1);
       }
-    }, 150);
-  }, [ballRadius]);
-  
-  const downloadCSV = useCallback(() => {
-    if (dataHistory.length === 0) return;
-    
-    const headers = ['Zaman (s)', 'Yükseklik (m)', 'Hız (m/s)', 'İvme (m/s²)', 'Yer Değiştirme (m)', 'Kütle (kg)'];
-    const csvContent = [
-      headers.join(';'),
-      ...dataHistory.map(row => [
-        row.time.toString().replace('.', ','),
-        row.height.toString().replace('.', ','),
-        row.velocity.toString().replace('.', ','),
-        row.acceleration.toString().replace('.', ','),
-        row.displacement.toString().replace('.', ','),
-        row.mass.toString().replace('.', ',')
-      ].join(';'))
-    ].join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'serbest_dusme_verileri.csv';
-    link.click();
+    }
+  }, [dataHistory]);
+  
+  const handleRowHover = useCallback((index: number | null) => {
+    setHoverTime(index !== null && dataHistory[index] ? dataHistory[index].time : null);
   }, [dataHistory]);
   
   const toggleDataTable = useCallback(() => {
     setIsDataTableVisible(!isDataTableVisible);
   }, [isDataTableVisible]);
   
+  // Shortcuts stay out of the way of typing and of open dialogs
+  useEffect(() => {
+    if (isDataModalOpen || isExportOpen) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.ctrlKey || e.metaKey || e.altKey || target.isContentEditable || target.closest('input, select, textarea')) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === ' ') {
+        // A focused button already reacts to space itself
+        if (target.closest('button, a')) return;
+        e.preventDefault();
+        if (runs.isRunning) {
+          runs.pause();
+        } else {
+          startSimulation();
+        }
+      } else if (key === 'r') {
+        restartSimulation();
+      } else if (key === 't') {
+        toggleDataTable();
+      }
+    };
+    
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isDataModalOpen, isExportOpen, runs, startSimulation, restartSimulation, toggleDataTable]);
+  
+  const withUnit = useCallback((quantity: UnitQuantity, value: number) => (
+    `${formatNumber(toDisplay(quantity, value))} ${symbol(quantity)}`
+  ), [formatNumber, toDisplay, symbol]);
+  
+  // The selected object's readouts are announced every announceInterval
+  // simulated seconds while running; impacts and stopping always are
+  const lastAnnouncedRef = useRef({ id: selected.id, time: 0, impacts: 0, landed: false });
+  useEffect(() => {
+    const last = lastAnnouncedRef.current;
+    const { time, height, velocity, impacts, landed } = selectedState;
+    lastAnnouncedRef.current = { id: selected.id, time, impacts: impacts.length, landed };
+    // A restart, a seek back or another selection starts over silently
+    if (last.id !== selected.id || time < last.time) return;
+    
+    const messages: string[] = [];
+    if (impacts.length > last.impacts) {
+      const impact = impacts[impacts.length - 1];
+      messages.push(t.a11y.impact(selected.name, `${formatNumber(impact.time)} s`, withUnit('speed', Math.abs(impact.preVelocity))));
+    }
+    if (landed && !last.landed) {
+      messages.push(t.a11y.landed(selected.name));
+    }
+    if (messages.length === 0 && runs.isRunning && announceInterval > 0
+      && Math.floor(time / announceInterval) > Math.floor(last.time / announceInterval)) {
+      messages.push(t.a11y.readout(selected.name, `${formatNumber(time)} s`, withUnit('length', height), withUnit('speed', velocity)));
+    }
+    if (messages.length > 0) {
+      setAnnouncement(messages.join(' '));
+    }
+  }, [selectedState, selected.id, selected.name, runs.isRunning, announceInterval, t, formatNumber, withUnit]);
+  
+  // What the canvas shows, for readers who cannot see it
+  const canvasDescription = [
+    t.a11y.canvasSummary(t.modes[mode], objects.length),
+    ...objects.map(object => {
+      const state = runs.states[object.id];
+      return t.a11y.objectSummary(object.name, withUnit('length', state.height), withUnit('speed', state.velocity), state.landed);
+    })
+  ].join(' ');
+  
   const handleMainTablePageChange = useCallback((page: number) => {
     if (page >= 1 && page <= mainTotalPages) {
       setMainTableCurrentPage(page);
@@ -338,13 +1170,33 @@ function FreeFallSimulation() {
     }
   }, [modalTotalPages]);
   
+  // Tables show one object at a time; these tabs pick which
+  const renderObjectTabs = () => {
+    if (objects.length <= 1) return null;
+    
+    return (
+      <div className="flex flex-wrap gap-2 mb-3">
+        {objects.map(object => (
+          <button
+            key={object.id}
+            onClick={() => selectObject(object.id)}
+            className={`pagination-button px-3 ${object.id === selected.id ? 'active' : ''}`}
+            style={object.id === selected.id ? undefined : { color: object.color.main }}
+          >
+            {object.name}
+          </button>
+        ))}
+      </div>
+    );
+  };
+  
   const renderMainTablePagination = () => {
     if (mainTotalPages <= 1) return null;
     
     const pages = [];
     const maxVisiblePages = 7;
     let startPage = Math.max(1, mainTableCurrentPage - Math.floor(maxVisiblePages / 2));
-    let endPage = Math.min(mainTotalPages, startPage + maxVisiblePages - 1);
+    const endPage = Math.min(mainTotalPages, startPage + maxVisiblePages - 1);
     
     if (endPage - startPage + 1 < maxVisiblePages) {
       startPage = Math.max(1, endPage - maxVisiblePages + 1);
@@ -418,7 +1270,7 @@ function FreeFallSimulation() {
     const pages = [];
     const maxVisiblePages = 7;
     let startPage = Math.max(1, modalCurrentPage - Math.floor(maxVisiblePages / 2));
-    let endPage = Math.min(modalTotalPages, startPage + maxVisiblePages - 1);
+    const endPage = Math.min(modalTotalPages, startPage + maxVisiblePages - 1);
     
     if (endPage - startPage + 1 < maxVisiblePages) {
       startPage = Math.max(1, endPage - maxVisiblePages + 1);
@@ -486,34 +1338,146 @@ function FreeFallSimulation() {
     );
   };
   
-  // Initialize simulation on component mount
+  // Re-render canvas when state changes
   useEffect(() => {
-    restartSimulation();
+    renderCanvas();
+  }, [renderCanvas]);
+  
+  // The canvas may be drawn smaller than its pixel size on narrow screens
+  const scenePointOf = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return { x: viewport.width / 2, y: CANVAS_HEIGHT / 2 };
     
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left) * CANVAS_WIDTH / rect.width - RULER_WIDTH,
+      y: (clientY - rect.top) * CANVAS_HEIGHT / rect.height
     };
-  }, []);
+  }, [CANVAS_WIDTH, viewport.width]);
   
-  // Re-render canvas when state changes
+  const zoomBy = useCallback((factor: number, point = { x: viewport.width / 2, y: CANVAS_HEIGHT / 2 }) => {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, cameraView.zoom * factor));
+    const next = zoomAt(camera, zoom / cameraView.zoom, point.x, point.y, viewport);
+    setCameraView({ zoom, panX: next.left - fit.left, panY: next.bottom - fit.bottom });
+  }, [camera, cameraView.zoom, fit, viewport]);
+  
+  const fitView = () => {
+    setCameraView(FIT_VIEW);
+    setFollowSelected(false);
+  };
+  
+  // React registers wheel listeners as passive, which would let the page
+  // scroll while zooming
   useEffect(() => {
-    renderCanvas();
-  }, [renderCanvas]);
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, scenePointOf(e.clientX, e.clientY));
+    };
+    
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomBy, scenePointOf]);
+  
+  // Dragging pans the view; grabbing it ends follow mode. Projectile and
+  // incline scenes pan both ways; vertical runs only up and down.
+  const handleCanvasPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    
+    const pan = { panX: camera.left - fit.left, panY: camera.bottom - fit.bottom };
+    panStartRef.current = { ...scenePointOf(e.clientX, e.clientY), ...pan };
+    setCameraView(view => ({ ...view, ...pan }));
+    setFollowSelected(false);
+  };
+  
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = panStartRef.current;
+    if (!start) return;
+    
+    const point = scenePointOf(e.clientX, e.clientY);
+    setCameraView(view => ({
+      ...view,
+      panX: mode !== 'vertical' ? start.panX - (point.x - start.x) / camera.scale : view.panX,
+      panY: start.panY + (point.y - start.y) / camera.scale
+    }));
+  };
   
-  const PlanetIcon = PLANETS[planet].icon;
+  const handleCanvasPointerUp = () => {
+    panStartRef.current = null;
+  };
+  
+  const PlanetIcon = BODY_ICONS[findBody(bodies, selected.planet)?.kind ?? 'custom'];
   
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#0D1117] to-[#18122B] p-4">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="text-center mb-8">
+          <div className="flex justify-end items-center gap-2 mb-2">
+            <Languages size={16} className="text-[var(--light-gray)]" aria-label={t.app.language} />
+            {(Object.keys(LOCALES) as Locale[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setLocale(key)}
+                className={`pagination-button px-2 ${locale === key ? 'active' : ''}`}
+                aria-pressed={locale === key}
+                lang={key}
+              >
+                {LOCALES[key].name}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end items-center flex-wrap gap-2 mb-2">
+            <Ruler size={16} className="text-[var(--light-gray)]" aria-label={t.units.title} />
+            {UNIT_SYSTEMS.map(system => {
+              const isActive = system === 'custom' ? isUnitPickerOpen || unitSystem === 'custom' : unitSystem === system;
+              return (
+                <button
+                  key={system}
+                  onClick={() => {
+                    if (system === 'custom') {
+                      setIsUnitPickerOpen(prev => !prev);
+                    } else {
+                      setUnits(UNIT_PRESETS[system]);
+                      setIsUnitPickerOpen(false);
+                    }
+                  }}
+                  className={`pagination-button px-2 ${isActive ? 'active' : ''}`}
+                  title={system === 'custom' ? t.units.customTitle : undefined}
+                  aria-pressed={isActive}
+                >
+                  {t.units.systems[system]}
+                </button>
+              );
+            })}
+          </div>
+          {isUnitPickerOpen && (
+            <div className="flex justify-end flex-wrap gap-2 mb-2">
+              {UNIT_QUANTITIES.map(quantity => (
+                <label key={quantity} className="flex items-center gap-1 text-sm text-[var(--light-gray)]">
+                  {t.units.quantities[quantity]}
+                  <select
+                    value={unitChoice[quantity]}
+                    onChange={(e) => setUnits({ ...unitChoice, [quantity]: e.target.value })}
+                    className="modern-select py-1"
+                  >
+                    {UNITS[quantity].map(unit => (
+                      <option key={unit.symbol} value={unit.symbol} className="bg-[var(--deep-space-blue)]">
+                        {unit.symbol}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
           <h1 className="text-4xl md:text-5xl font-bold text-[var(--near-white)] mb-2">
-            Modern Serbest Düşme Simülasyonu
+            {t.app.title}
           </h1>
           <p className="text-[var(--light-gray)] text-lg">
-            Fizik yasalarını modern arayüzle keşfedin
+            {t.app.subtitle}
           </p>
         </div>
         
@@ -524,124 +1488,478 @@ function FreeFallSimulation() {
             <div className="glass-card">
               <h2 className="text-xl font-semibold text-[var(--neon-cyan)] mb-6 flex items-center gap-2">
                 <Settings size={20} />
-                Kontrol Paneli
+                {t.controls.title}
               </h2>
               
+              {/* Objects */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                  {t.controls.objects}
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {objects.map(object => (
+                    <button
+                      key={object.id}
+                      onClick={() => selectObject(object.id)}
+                      className={`pagination-button px-2 ${object.id === selected.id ? 'active' : ''}`}
+                      style={object.id === selected.id ? undefined : { color: object.color.main, borderColor: object.color.main }}
+                    >
+                      {object.name}
+                    </button>
+                  ))}
+                  <button
+                    onClick={addObject}
+                    disabled={isFieldLocked('objects') || objects.length >= MAX_OBJECTS}
+                    className="pagination-button"
+                    title={t.controls.addObject}
+                  >
+                    <Plus size={16} />
+                  </button>
+                  <button
+                    onClick={removeSelected}
+                    disabled={isFieldLocked('objects') || objects.length <= 1}
+                    className="pagination-button"
+                    title={t.controls.removeObject}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+              
+              {/* Motion Mode */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                  {t.controls.motionMode}
+                </label>
+                <div className="flex gap-2">
+                  {MOTION_MODES.map(key => (
+                    <button
+                      key={key}
+                      onClick={() => changeMode(key)}
+                      disabled={isFieldLocked('mode')}
+                      className={`pagination-button flex-1 ${mode === key ? 'active' : ''}`}
+                    >
+                      {t.modes[key]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              
               {/* Parameters */}
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
-                    İlk Hız (m/s)
+                    {t.parameters.preset}
                   </label>
-                  <input
-                    type="number"
-                    value={initialVelocity}
-                    onChange={(e) => setInitialVelocity(parseFloat(e.target.value) || 0)}
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && applyPreset(e.target.value as PresetId)}
+                    className="modern-select w-full"
+                    disabled={isLocked || Boolean(lesson?.locked.length)}
+                  >
+                    <option value="" className="bg-[var(--deep-space-blue)]">
+                      {t.parameters.choosePreset}
+                    </option>
+                    {PRESET_IDS.map(key => (
+                      <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
+                        {t.parameters.presets[key]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                
+                {mode === 'vertical' && (
+                  <ParameterInput
+                    form={parameterForm}
+                    name="velocity"
+                    label={t.controls.initialVelocity(symbol('speed'))}
                     step="0.1"
-                    className="modern-input w-full"
-                    disabled={simulationState.isRunning}
+                    disabled={isFieldLocked('velocity')}
                   />
-                </div>
+                )}
+                
+                {mode === 'projectile' && (
+                  <>
+                    <ParameterInput
+                      form={parameterForm}
+                      name="launchSpeed"
+                      label={t.controls.launchSpeed(symbol('speed'))}
+                      step="0.5"
+                      disabled={isFieldLocked('launchSpeed')}
+                    />
+                    
+                    <ParameterInput
+                      form={parameterForm}
+                      name="angle"
+                      label={t.controls.launchAngle}
+                      step="1"
+                      disabled={isFieldLocked('angle')}
+                    />
+                  </>
+                )}
+                
+                {mode === 'incline' && (
+                  <>
+                    <ParameterInput
+                      form={parameterForm}
+                      name="velocity"
+                      label={t.incline.speed(symbol('speed'))}
+                      step="0.1"
+                      disabled={isFieldLocked('velocity')}
+                    />
+                    
+                    <ParameterInput
+                      form={parameterForm}
+                      name="slope"
+                      label={t.incline.angle}
+                      step="1"
+                      disabled={isFieldLocked('slope')}
+                    />
+                  </>
+                )}
+                
+                {mode !== 'vertical' && (
+                  <ParameterInput
+                    form={parameterForm}
+                    name="x"
+                    label={t.controls.initialX(symbol('length'))}
+                    step="1"
+                    disabled={isFieldLocked('x')}
+                  />
+                )}
+                
+                <ParameterInput
+                  form={parameterForm}
+                  name="height"
+                  label={t.controls.initialHeight(symbol('length'))}
+                  step="1"
+                  disabled={isFieldLocked('height')}
+                />
+                
+                <ParameterInput
+                  form={parameterForm}
+                  name="mass"
+                  label={t.controls.mass(symbol('mass'))}
+                  step="0.1"
+                  disabled={isFieldLocked('mass')}
+                />
                 
                 <div>
                   <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
-                    Yükseklik (m)
+                    {t.controls.planet}
                   </label>
-                  <input
-                    type="number"
-                    value={initialHeight}
-                    onChange={(e) => setInitialHeight(Math.max(1, parseFloat(e.target.value) || 1))}
-                    step="1"
-                    min="1"
-                    className="modern-input w-full"
-                    disabled={simulationState.isRunning}
+                  <BodyPicker
+                    bodies={bodies}
+                    value={selected.planet}
+                    onChange={changePlanet}
+                    onSave={saveBody}
+                    onRemove={removeBody}
+                    bodyName={bodyName}
+                    disabled={isFieldLocked('planet')}
+                    canEdit={!lesson}
                   />
                 </div>
                 
+                {selected.planet === CUSTOM_BODY && (
+                  <ParameterInput
+                    form={parameterForm}
+                    name="gravity"
+                    label={t.controls.customGravity(symbol('acceleration'))}
+                    step="0.01"
+                    disabled={isFieldLocked('gravity')}
+                  />
+                )}
+                
+                {selected.planet === CUSTOM_BODY && (
+                  <ParameterInput
+                    form={parameterForm}
+                    name="radius"
+                    label={t.gravity.radius}
+                    step="1"
+                    disabled={isFieldLocked('radius')}
+                  />
+                )}
+                
                 <div>
                   <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
-                    Kütle (kg)
+                    {t.gravity.model}
                   </label>
-                  <input
-                    type="number"
-                    value={mass}
-                    onChange={(e) => setMass(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
-                    step="0.1"
-                    min="0.1"
-                    className="modern-input w-full"
-                    disabled={simulationState.isRunning}
-                  />
+                  <select
+                    value={selected.gravityModel}
+                    onChange={(e) => updateSelected({ gravityModel: e.target.value as GravityModel })}
+                    className="modern-select w-full"
+                    disabled={isFieldLocked('gravityModel')}
+                  >
+                    {GRAVITY_MODELS.map(key => (
+                      <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
+                        {t.gravity.models[key]}
+                      </option>
+                    ))}
+                  </select>
                 </div>
                 
+                <ParameterInput
+                  form={parameterForm}
+                  name="gravityWarning"
+                  label={t.gravity.threshold}
+                  step="0.1"
+                />
+                
+                {constantGravityErrorPercent > gravityWarningPercent && (
+                  <p className="text-sm text-[#FBBF24]">
+                    {(selected.gravityModel === 'constant' ? t.gravity.warningConstant : t.gravity.warningInverseSquare)(
+                      formatNumber(constantGravityErrorPercent),
+                      formatNumber(gravityWarningPercent)
+                    )}
+                  </p>
+                )}
+                
+                {mode === 'incline' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                        {t.incline.shape}
+                      </label>
+                      <select
+                        value={selected.incline.shape}
+                        onChange={(e) => updateIncline({ shape: e.target.value as InclineShape })}
+                        className="modern-select w-full"
+                        disabled={isFieldLocked('shape')}
+                      >
+                        {INCLINE_SHAPES.map(key => (
+                          <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
+                            {t.incline.shapes[key]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    
+                    <ParameterInput
+                      form={parameterForm}
+                      name="mus"
+                      label={t.incline.staticFriction}
+                      step="0.05"
+                      disabled={isFieldLocked('mus')}
+                    />
+                    
+                    <ParameterInput
+                      form={parameterForm}
+                      name="muk"
+                      label={t.incline.kineticFriction}
+                      step="0.05"
+                      disabled={isFieldLocked('muk')}
+                    />
+                    
+                    {selected.incline.shape === 'ball' && !rolls(selected.incline) && (
+                      <p className="text-sm text-[#FBBF24]">{t.incline.slips}</p>
+                    )}
+                    {holdsAtRest(selected.incline) && (
+                      <p className="text-sm text-[var(--light-gray)]">{t.incline.holds}</p>
+                    )}
+                  </>
+                ) : (
+                  <ParameterInput
+                    form={parameterForm}
+                    name="restitution"
+                    label={t.controls.restitution}
+                    step="0.05"
+                    disabled={isFieldLocked('restitution')}
+                  />
+                )}
+                
                 <div>
                   <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
-                    Gezegen
+                    {t.controls.drag}
                   </label>
                   <select
-                    value={planet}
-                    onChange={(e) => setPlanet(e.target.value as keyof typeof PLANETS)}
+                    value={selected.drag.model}
+                    onChange={(e) => updateDrag({ model: e.target.value as DragModel })}
                     className="modern-select w-full"
-                    disabled={simulationState.isRunning}
+                    disabled={isFieldLocked('drag')}
                   >
-                    {Object.entries(PLANETS).map(([key, { name }]) => (
+                    {DRAG_MODELS.map(key => (
                       <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
-                        {name}
+                        {t.dragModels[key]}
                       </option>
                     ))}
                   </select>
                 </div>
                 
-                {planet === 'custom' && (
-                  <div>
-                    <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
-                      Yer Çekimi (m/s²)
-                    </label>
-                    <input
-                      type="number"
-                      value={customGravity}
-                      onChange={(e) => setCustomGravity(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                {selected.drag.model === 'linear' && (
+                  <ParameterInput
+                    form={parameterForm}
+                    name="b"
+                    label={t.controls.linearCoefficient}
+                    step="0.01"
+                    disabled={isFieldLocked('b')}
+                  />
+                )}
+                
+                {selected.drag.model === 'quadratic' && (
+                  <>
+                    <ParameterInput
+                      form={parameterForm}
+                      name="cd"
+                      label={t.controls.dragCoefficient}
                       step="0.01"
-                      min="0.1"
-                      className="modern-input w-full"
-                      disabled={simulationState.isRunning}
+                      disabled={isFieldLocked('cd')}
                     />
-                  </div>
+                    
+                    <ParameterInput
+                      form={parameterForm}
+                      name="area"
+                      label={t.controls.area}
+                      step="0.001"
+                      disabled={isFieldLocked('area')}
+                    />
+                    
+                    <ParameterInput
+                      form={parameterForm}
+                      name="density"
+                      label={t.controls.fluidDensity}
+                      step="0.001"
+                      disabled={isFieldLocked('density')}
+                    />
+                  </>
                 )}
+                
+                <div>
+                  <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                    {t.controls.integrator}
+                  </label>
+                  <select
+                    value={integrator}
+                    onChange={(e) => setIntegrator(e.target.value as IntegratorKind)}
+                    className="modern-select w-full"
+                    disabled={isFieldLocked('integrator')}
+                  >
+                    {INTEGRATOR_OPTIONS.map(key => (
+                      <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
+                        {t.integrators[key]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                
+                <ParameterInput
+                  form={parameterForm}
+                  name="dt"
+                  label={t.controls.timeStep}
+                  step="0.001"
+                  disabled={isFieldLocked('dt')}
+                />
+              </div>
+              
+              {/* Playback */}
+              <div className="mt-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                    {t.controls.playbackSpeed}
+                  </label>
+                  <div className="grid grid-cols-5 gap-1">
+                    {PLAYBACK_SPEEDS.map(speed => (
+                      <button
+                        key={speed}
+                        onClick={() => setPlaybackSpeed(speed)}
+                        className={`pagination-button ${playbackSpeed === speed ? 'active' : ''}`}
+                      >
+                        {formatNumber(speed, 0, 2)}×
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                    {t.controls.sampleInterval}
+                  </label>
+                  <select
+                    value={sampleInterval}
+                    onChange={(e) => setSampleInterval(parseFloat(e.target.value))}
+                    className="modern-select w-full"
+                  >
+                    {SAMPLE_INTERVALS.map(interval => (
+                      <option key={interval} value={interval} className="bg-[var(--deep-space-blue)]">
+                        {formatNumber(interval, 0, 2)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                
+                <div>
+                  <label htmlFor={announceIntervalId} className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+                    {t.a11y.announceInterval}
+                  </label>
+                  <select
+                    id={announceIntervalId}
+                    value={announceInterval}
+                    onChange={(e) => setAnnounceInterval(parseFloat(e.target.value))}
+                    className="modern-select w-full"
+                  >
+                    {ANNOUNCE_INTERVALS.map(interval => (
+                      <option key={interval} value={interval} className="bg-[var(--deep-space-blue)]">
+                        {interval === 0 ? t.a11y.announceOff : formatNumber(interval, 0)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               {/* Control Buttons */}
               <div className="mt-6 space-y-3">
                 <button
-                  onClick={simulationState.isRunning ? stopSimulation : startSimulation}
+                  onClick={runs.isRunning ? runs.pause : startSimulation}
                   className="modern-button modern-button-primary w-full flex items-center justify-center gap-2"
+                  aria-keyshortcuts="Space"
                 >
-                  {simulationState.isRunning ? (
+                  {runs.isRunning ? (
                     <>
                       <Pause size={18} />
-                      Durdur
+                      {t.controls.pause}
                     </>
                   ) : (
                     <>
                       <Play size={18} />
-                      Başlat
+                      {runs.isPaused ? t.controls.resume : t.controls.start}
                     </>
                   )}
                 </button>
                 
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={runs.stepBack}
+                    disabled={runs.isRunning || runs.playheadIndex === 0}
+                    className="modern-button modern-button-secondary flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={t.controls.stepBack}
+                  >
+                    <StepBack size={18} />
+                  </button>
+                  <button
+                    onClick={stepForward}
+                    disabled={runs.isRunning || (runs.hasRun && runs.allLanded && runs.playheadIndex === runs.timeline.length - 1)}
+                    className="modern-button modern-button-secondary flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={t.controls.stepForward}
+                  >
+                    <StepForward size={18} />
+                  </button>
+                </div>
+                
                 <button
                   onClick={restartSimulation}
                   className="modern-button modern-button-secondary w-full flex items-center justify-center gap-2"
+                  aria-keyshortcuts="R"
                 >
                   <RotateCcw size={18} />
-                  Tekrar Başlat
+                  {t.controls.restart}
                 </button>
                 
                 <button
                   onClick={toggleDataTable}
                   className="modern-button modern-button-success w-full flex items-center justify-center gap-2"
+                  aria-keyshortcuts="T"
                 >
                   {isDataTableVisible ? <EyeOff size={18} /> : <Eye size={18} />}
-                  Veri Tablosunu {isDataTableVisible ? 'Gizle' : 'Göster'}
+                  {isDataTableVisible ? t.controls.hideTable : t.controls.showTable}
                 </button>
                 
                 <button
@@ -650,113 +1968,355 @@ function FreeFallSimulation() {
                   className="modern-button modern-button-secondary w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <BarChart3 size={18} />
-                  Detaylı Tablo
+                  {t.controls.detailedTable}
                 </button>
                 
                 <button
-                  onClick={downloadCSV}
-                  disabled={dataHistory.length === 0}
-                  className="modern-button modern-button-secondary w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={openExport}
+                  className="modern-button modern-button-secondary w-full flex items-center justify-center gap-2"
                 >
                   <Download size={18} />
-                  İndir
+                  {t.controls.export}
+                </button>
+                
+                <button
+                  onClick={copyLink}
+                  className="modern-button modern-button-secondary w-full flex items-center justify-center gap-2"
+                >
+                  {linkStatus === 'copied' ? <Check size={18} /> : <Link size={18} />}
+                  {linkStatus === 'copied' ? t.share.copied : t.share.copyLink}
                 </button>
+                
+                {linkStatus === 'failed' && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-[#F87171]">{t.share.copyFailed}</p>
+                    <input
+                      type="text"
+                      value={scenarioLink}
+                      readOnly
+                      onFocus={(e) => e.target.select()}
+                      className="modern-input w-full text-xs"
+                    />
+                  </div>
+                )}
+                
+                {ignoredParams.length > 0 && (
+                  <div className="flex items-start gap-2 text-sm text-[#FBBF24]">
+                    <p className="flex-1">{t.share.ignored(ignoredParams.join(', '))}</p>
+                    <button
+                      onClick={() => setIgnoredParams([])}
+                      aria-label={t.share.dismiss}
+                      title={t.share.dismiss}
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                )}
+                
+                <p className="text-xs text-[var(--light-gray)]">{t.a11y.shortcuts}</p>
               </div>
               
               {/* Current Planet Info */}
               <div className="planet-info">
                 <PlanetIcon size={16} className="text-[var(--neon-cyan)]" />
                 <span className="planet-info-text">
-                  {PLANETS[planet].name}: {gravity.toFixed(2)} m/s²
+                  {selected.name} · {bodyName(selected.planet)}: {formatNumber(toDisplay('acceleration', gravity))} {symbol('acceleration')}
                 </span>
               </div>
             </div>
           </div>
           
           {/* Simulation Canvas */}
-          <div className="lg:col-span-3">
+          <div className="lg:col-span-3 space-y-6">
             <div className="glass-card">
-              <h2 className="text-xl font-semibold text-[var(--neon-cyan)] mb-4">
-                Simülasyon Alanı
-              </h2>
+              <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+                <h2 className="text-xl font-semibold text-[var(--neon-cyan)]">
+                  {t.canvas.title}
+                </h2>
+                
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => zoomBy(ZOOM_STEP)}
+                    disabled={cameraView.zoom >= MAX_ZOOM}
+                    className="pagination-button"
+                    title={t.canvas.zoomIn}
+                    aria-label={t.canvas.zoomIn}
+                  >
+                    <ZoomIn size={16} />
+                  </button>
+                  <button
+                    onClick={() => zoomBy(1 / ZOOM_STEP)}
+                    disabled={cameraView.zoom <= MIN_ZOOM}
+                    className="pagination-button"
+                    title={t.canvas.zoomOut}
+                    aria-label={t.canvas.zoomOut}
+                  >
+                    <ZoomOut size={16} />
+                  </button>
+                  <button
+                    onClick={fitView}
+                    className="pagination-button"
+                    title={t.canvas.fit}
+                    aria-label={t.canvas.fit}
+                  >
+                    <Maximize2 size={16} />
+                  </button>
+                  <button
+                    onClick={() => setFollowSelected(follow => !follow)}
+                    className={`pagination-button flex items-center gap-1 px-2 ${followSelected ? 'active' : ''}`}
+                    title={t.canvas.followTitle}
+                    aria-pressed={followSelected}
+                  >
+                    <Crosshair size={16} />
+                    {t.canvas.follow}
+                  </button>
+                  {CANVAS_OVERLAYS.map(({ key, icon: Icon }) => {
+                    const isShown = canvasOverlays.includes(key);
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => setCanvasOverlays(prev => isShown ? prev.filter(other => other !== key) : [...prev, key])}
+                        className={`pagination-button flex items-center gap-1 px-2 ${isShown ? 'active' : ''}`}
+                        title={t.canvas.overlayTitles[key]}
+                        aria-pressed={isShown}
+                      >
+                        <Icon size={16} />
+                        {t.canvas.overlays[key]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
               
-              <div className="flex justify-center mb-6">
+              <div className="flex justify-center items-stretch gap-6 mb-6">
                 <canvas
                   ref={canvasRef}
                   width={CANVAS_WIDTH}
                   height={CANVAS_HEIGHT}
-                  className="border border-[var(--card-border)] rounded-lg max-w-full h-auto"
+                  className="border border-[var(--card-border)] rounded-lg max-w-full h-auto cursor-grab active:cursor-grabbing touch-none"
                   style={{ background: 'rgba(13, 17, 23, 0.9)' }}
+                  role="img"
+                  aria-label={t.a11y.canvasLabel}
+                  aria-describedby={canvasDescriptionId}
+                  onPointerDown={handleCanvasPointerDown}
+                  onPointerMove={handleCanvasPointerMove}
+                  onPointerUp={handleCanvasPointerUp}
+                  onPointerCancel={handleCanvasPointerUp}
+                />
+                
+                <EnergyGauge energy={energy} initialEnergy={initialEnergy(selectedParams)} />
+              </div>
+              <p id={canvasDescriptionId} className="sr-only">{canvasDescription}</p>
+              <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+              
+              {/* Timeline */}
+              <div className="mb-6">
+                <div className="flex justify-between text-sm text-[var(--light-gray)] mb-2">
+                  <span>{t.canvas.timeline}</span>
+                  <span>
+                    {runs.timeline.length > 0
+                      ? `${formatNumber(runs.timeline[runs.playheadIndex])} / ${formatNumber(runs.timeline[runs.timeline.length - 1])} s`
+                      : '—'}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={Math.max(0, runs.timeline.length - 1)}
+                  value={runs.playheadIndex}
+                  onChange={(e) => runs.seek(parseInt(e.target.value, 10))}
+                  disabled={runs.isRunning || runs.timeline.length < 2}
+                  className="w-full accent-[var(--neon-cyan)]"
+                  aria-label={t.canvas.timelineLabel}
                 />
               </div>
               
               {/* Current Values */}
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4">
                 <div className="info-card">
-                  <div className="info-card-label">Zaman</div>
+                  <div className="info-card-label">{t.readouts.time}</div>
                   <div className="info-card-value">
-                    {simulationState.time.toFixed(2)} s
+                    {formatNumber(selectedState.time)} s
                   </div>
                 </div>
                 
                 <div className="info-card">
-                  <div className="info-card-label">Yükseklik</div>
+                  <div className="info-card-label">{t.readouts.height}</div>
                   <div className="info-card-value">
-                    {simulationState.currentHeight.toFixed(2)} m
+                    {formatNumber(toDisplay('length', selectedState.height))} {symbol('length')}
                   </div>
                 </div>
                 
                 <div className="info-card">
-                  <div className="info-card-label">Hız</div>
+                  <div className="info-card-label">{mode === 'vertical' ? t.readouts.velocity : t.readouts.verticalVelocity}</div>
                   <div className="info-card-value">
-                    {simulationState.currentVelocity.toFixed(2)} m/s
+                    {formatNumber(toDisplay('speed', selectedState.velocity))} {symbol('speed')}
                   </div>
                 </div>
                 
                 <div className="info-card">
-                  <div className="info-card-label">İvme</div>
+                  <div className="info-card-label">{t.readouts.acceleration}</div>
                   <div className="info-card-value">
-                    {gravity.toFixed(2)} m/s²
+                    {formatNumber(toDisplay('acceleration', selectedState.acceleration))} {symbol('acceleration')}
+                  </div>
+                </div>
+                
+                {mode !== 'incline' && (
+                  <div className="info-card">
+                    <div className="info-card-label">{t.readouts.terminalVelocity}</div>
+                    <div className="info-card-value">
+                      {Number.isFinite(terminalSpeed) ? `${formatNumber(toDisplay('speed', terminalSpeed))} ${symbol('speed')}` : t.common.infinity}
+                    </div>
+                  </div>
+                )}
+                
+                {mode === 'incline' && (
+                  <>
+                    <div className="info-card">
+                      <div className="info-card-label">{t.incline.distance}</div>
+                      <div className="info-card-value">
+                        {formatNumber(toDisplay('length', selectedState.displacement / slopeSine))} {symbol('length')}
+                      </div>
+                    </div>
+                    
+                    <div className="info-card">
+                      <div className="info-card-label">{t.incline.alongSpeed}</div>
+                      <div className="info-card-value">
+                        {formatNumber(toDisplay('speed', slopeSpeed(selected.incline.angle, selectedState.velocity, selectedState.horizontalVelocity)))} {symbol('speed')}
+                      </div>
+                    </div>
+                    
+                    <div className="info-card">
+                      <div className="info-card-label">{t.incline.alongAcceleration}</div>
+                      <div className="info-card-value">
+                        {formatNumber(toDisplay('acceleration', selectedState.acceleration / slopeSine))} {symbol('acceleration')}
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                {mode === 'projectile' && (
+                  <>
+                    <div className="info-card">
+                      <div className="info-card-label">{t.readouts.horizontalPosition}</div>
+                      <div className="info-card-value">
+                        {formatNumber(toDisplay('length', selectedState.x))} {symbol('length')}
+                      </div>
+                    </div>
+                    
+                    <div className="info-card">
+                      <div className="info-card-label">{t.readouts.horizontalVelocity}</div>
+                      <div className="info-card-value">
+                        {formatNumber(toDisplay('speed', selectedState.horizontalVelocity))} {symbol('speed')}
+                      </div>
+                    </div>
+                    
+                    <div className="info-card">
+                      <div className="info-card-label">{t.readouts.range}</div>
+                      <div className="info-card-value">
+                        {flight ? `${formatNumber(toDisplay('length', flight.range))} ${symbol('length')}` : '—'}
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                <div className="info-card">
+                  <div className="info-card-label">{t.readouts.apexHeight}</div>
+                  <div className="info-card-value">
+                    {flight ? `${formatNumber(toDisplay('length', flight.apex.height))} ${symbol('length')}` : '—'}
+                  </div>
+                </div>
+                
+                <div className="info-card">
+                  <div className="info-card-label">{t.readouts.flightTime}</div>
+                  <div className="info-card-value">
+                    {flight ? `${formatNumber(flight.flightTime)} s` : '—'}
                   </div>
                 </div>
               </div>
               
               {/* Toggle Data Table */}
               <div className={`data-table-container ${isDataTableVisible ? 'open' : ''}`}>
-                <table className="data-table">
-                  <thead>
-                    <tr>
-                      <th>Zaman (s)</th>
-                      <th>Yükseklik (m)</th>
-                      <th>Hız (m/s)</th>
-                      <th>İvme (m/s²)</th>
-                      <th>Yer Değiştirme (m)</th>
-                      <th>Kütle (kg)</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {mainCurrentData.map((row, index) => (
-                      <tr key={mainStartIndex + index}>
-                        <td>{row.time.toFixed(2)}</td>
-                        <td>{row.height.toFixed(2)}</td>
-                        <td>{row.velocity.toFixed(2)}</td>
-                        <td>{row.acceleration.toFixed(2)}</td>
-                        <td>{row.displacement.toFixed(2)}</td>
-                        <td>{row.mass.toFixed(1)}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+                {renderObjectTabs()}
+                
+                <DataTable
+                  rows={mainCurrentData}
+                  startIndex={mainStartIndex}
+                  showHorizontal={mode !== 'vertical'}
+                  measuredHeights={measuredHeightsFor(mainCurrentData)}
+                  overlays={overlaysFor(mainCurrentData)}
+                  highlightIndex={hoverIndex}
+                  onRowHover={handleRowHover}
+                />
                 
                 {renderMainTablePagination()}
                 
                 {dataHistory.length === 0 && (
                   <p className="text-center py-8 text-[var(--light-gray)]">
-                    Henüz veri bulunmuyor. Simülasyonu çalıştırarak veri toplayın.
+                    {t.common.noData}
                   </p>
                 )}
               </div>
             </div>
+            
+            {/* Guided Lesson */}
+            <LessonPanel
+              lesson={lesson}
+              onStart={startLesson}
+              onExit={() => setLesson(null)}
+              histories={objects.map(object => runs.histories[object.id] ?? [])}
+              isFinished={runs.hasRun && runs.allLanded}
+            />
+            
+            {/* Experiment Data */}
+            <MeasurementPanel
+              measurement={measurement}
+              seriesIndex={measuredSeriesIndex}
+              onSeriesChange={setMeasuredSeriesIndex}
+              alignStart={alignMeasuredStart}
+              onAlignStartChange={setAlignMeasuredStart}
+              onLoad={(data) => {
+                setMeasurement(data);
+                setMeasuredSeriesIndex(0);
+              }}
+              onClear={() => setMeasurement(null)}
+            />
+            
+            {/* Saved Scenarios and Runs */}
+            <HistoryPanel
+              library={library}
+              scenarioQuery={scenarioQuery}
+              onLoadScenario={loadSavedScenario}
+              onLoadRun={loadSavedRun}
+              canLoad={!lesson}
+              compareIds={comparedRuns.map(run => run.id)}
+              onCompareChange={setCompareIds}
+            />
+            
+            {/* Live Charts */}
+            <div ref={chartsRef}>
+              <SimulationCharts
+                runs={chartRuns}
+                selectedId={selected.id}
+                hoverTime={hoverTime}
+                onHover={handleChartHover}
+                measured={measuredSeries}
+              />
+            </div>
+            
+            {/* Curve Fitting */}
+            <CurveFitPanel
+              objectName={selected.name}
+              simulated={dataHistory}
+              mass={selected.mass}
+              drag={selectedParams.drag}
+              referenceName={bodyName(selected.planet)}
+              referenceGravity={gravity}
+              measured={measuredSeries}
+            />
+            
+            {/* Integrator Comparison */}
+            <IntegratorComparison params={selectedParams} />
           </div>
         </div>
       </div>
@@ -765,48 +2325,32 @@ function FreeFallSimulation() {
       <Modal
         isOpen={isDataModalOpen}
         onClose={() => setIsDataModalOpen(false)}
-        title={`📊 Simülasyon Veri Tablosu (${dataHistory.length} kayıt)`}
+        title={t.table.modalTitle(selected.name, dataHistory.length)}
       >
         <div className="space-y-4">
+          {renderObjectTabs()}
+          
           <div className="flex items-center justify-between flex-wrap gap-4">
             <div className="text-sm text-[var(--light-gray)]">
-              Sayfa {modalCurrentPage} / {modalTotalPages} - Toplam {dataHistory.length} kayıt
+              {t.table.pageInfo(modalCurrentPage, modalTotalPages, dataHistory.length)}
             </div>
             <button
-              onClick={downloadCSV}
-              disabled={dataHistory.length === 0}
+              onClick={openExport}
               className="modern-button modern-button-primary flex items-center gap-2"
             >
               <Download size={16} />
-              İndir
+              {t.controls.export}
             </button>
           </div>
           
-          <div className="max-h-96 overflow-y-auto">
-            <table className="data-table">
-              <thead>
-                <tr>
-                  <th>Zaman (s)</th>
-                  <th>Yükseklik (m)</th>
-                  <th>Hız (m/s)</th>
-                  <th>İvme (m/s²)</th>
-                  <th>Yer Değiştirme (m)</th>
-                  <th>Kütle (kg)</th>
-                </tr>
-              </thead>
-              <tbody>
-                {modalCurrentData.map((row, index) => (
-                  <tr key={modalStartIndex + index}>
-                    <td>{row.time.toFixed(2)}</td>
-                    <td>{row.height.toFixed(2)}</td>
-                    <td>{row.velocity.toFixed(2)}</td>
-                    <td>{row.acceleration.toFixed(2)}</td>
-                    <td>{row.displacement.toFixed(2)}</td>
-                    <td>{row.mass.toFixed(1)}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+          <div className="max-h-96 overflow-auto">
+            <DataTable
+              rows={modalCurrentData}
+              startIndex={modalStartIndex}
+              showHorizontal={mode !== 'vertical'}
+              measuredHeights={measuredHeightsFor(modalCurrentData)}
+              overlays={overlaysFor(modalCurrentData)}
+            />
           </div>
           
           {renderModalPagination()}
@@ -814,12 +2358,21 @@ function FreeFallSimulation() {
           {dataHistory.length === 0 && (
             <div className="text-center py-8">
               <p className="text-[var(--light-gray)]">
-                Henüz veri bulunmuyor. Simülasyonu çalıştırarak veri toplayın.
+                {t.common.noData}
               </p>
             </div>
           )}
         </div>
       </Modal>
+      
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        runs={exportRuns}
+        settings={{ mode, integrator, timeStep, sampleInterval }}
+        canvasRef={canvasRef}
+        chartsRef={chartsRef}
+      />
     </div>
   );
 }
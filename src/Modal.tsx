@@ -1,4 +1,5 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useId, useRef } from 'react';
+import { useI18n } from './hooks/use-i18n';
 
 interface ModalProps {
   isOpen: boolean;
@@ -7,24 +8,61 @@ interface ModalProps {
   children: React.ReactNode;
 }
 
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
 function Modal({ isOpen, onClose, title, children }: ModalProps) {
+  const { t } = useI18n();
+  const titleId = useId();
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // Callers pass inline handlers; reading the latest one keeps the effect
+  // below from moving focus again on every render
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Focus moves into the dialog on open and back to whatever opened it on
+  // close; Tab cycles within the dialog meanwhile
   useEffect(() => {
-    const handleEscape = (event: KeyboardEvent) => {
+    if (!isOpen) return;
+
+    const opener = document.activeElement as HTMLElement | null;
+    const focusables = () => Array.from(contentRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
-        onClose();
+        onCloseRef.current();
+        return;
+      }
+      if (event.key !== 'Tab') return;
+
+      const elements = focusables();
+      if (elements.length === 0) {
+        event.preventDefault();
+        return;
+      }
+
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      const inside = contentRef.current?.contains(document.activeElement);
+      if (event.shiftKey && (document.activeElement === first || !inside)) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && (document.activeElement === last || !inside)) {
+        event.preventDefault();
+        first.focus();
       }
     };
 
-    if (isOpen) {
-      document.addEventListener('keydown', handleEscape);
-      document.body.style.overflow = 'hidden';
-    }
+    (focusables()[0] ?? contentRef.current)?.focus();
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
 
     return () => {
-      document.removeEventListener('keydown', handleEscape);
+      document.removeEventListener('keydown', handleKeyDown);
       document.body.style.overflow = 'unset';
+      opener?.focus();
     };
-  }, [isOpen, onClose]);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
@@ -36,15 +74,22 @@ function Modal({ isOpen, onClose, title, children }: ModalProps) {
 
   return (
     <div className="modal-overlay" onClick={handleOverlayClick}>
-      <div className="modal-content">
+      <div
+        ref={contentRef}
+        className="modal-content"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+      >
         <div className="modal-header">
-          <h2 className="text-xl font-semibold text-[var(--near-white)]">
+          <h2 id={titleId} className="text-xl font-semibold text-[var(--near-white)]">
             {title}
           </h2>
           <button
             onClick={onClose}
             className="modal-close"
-            aria-label="Kapat"
+            aria-label={t.common.close}
           >
             ❌
           </button>
@@ -57,4 +102,4 @@ function Modal({ isOpen, onClose, title, children }: ModalProps) {
   );
 }
 
-export default Modal;
\ No newline at end of file
+export default Modal;
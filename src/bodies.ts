@@ -0,0 +1,116 @@
+import { CircleDot, Globe, LucideIcon, Moon, SlidersHorizontal, Sparkles } from 'lucide-react';
+import { z } from 'zod';
+import { PARAMETER_FIELDS, ParameterKey } from './parameters';
+
+/**
+ * Celestial bodies to drop things on. Built-in bodies are named in the
+ * locale files; bodies the user defines carry their own name and are kept
+ * in localStorage. Objects copy a body's gravity and atmosphere when it is
+ * picked, so runs and shared links do not depend on this catalogue.
+ */
+
+// 'custom' is the single free-gravity entry edited in the control panel
+export type BodyKind = 'planet' | 'moon' | 'dwarf' | 'custom' | 'user';
+
+export interface CelestialBody {
+  id: string;
+  kind: BodyKind;
+  // Surface gravity (m/s²)
+  gravity: number;
+  // Surface air density (kg/m³); for gas giants at the 1 bar level
+  atmosphereDensity: number;
+  // Mean radius (m)
+  radius: number;
+  // The planet a moon orbits
+  parent?: string;
+  // User-defined bodies only
+  name?: string;
+}
+
+export const BODY_KINDS: BodyKind[] = ['planet', 'moon', 'dwarf', 'custom', 'user'];
+
+export const BODY_ICONS: Record<BodyKind, LucideIcon> = {
+  planet: Globe,
+  moon: Moon,
+  dwarf: CircleDot,
+  custom: SlidersHorizontal,
+  user: Sparkles
+};
+
+const body = (id: string, kind: BodyKind, gravity: number, atmosphereDensity: number, radiusKm: number, parent?: string): CelestialBody => (
+  { id, kind, gravity, atmosphereDensity, radius: radiusKm * 1000, parent }
+);
+
+// NASA planetary fact sheets
+export const BUILT_IN_BODIES: CelestialBody[] = [
+  body('mercury', 'planet', 3.7, 0, 2439.7),
+  body('venus', 'planet', 8.87, 65, 6051.8),
+  body('earth', 'planet', 9.81, 1.225, 6371),
+  body('mars', 'planet', 3.71, 0.02, 3389.5),
+  body('jupiter', 'planet', 24.79, 0.16, 69911),
+  body('saturn', 'planet', 10.44, 0.19, 58232),
+  body('uranus', 'planet', 8.87, 0.42, 25362),
+  body('neptune', 'planet', 11.15, 0.45, 24622),
+  body('moon', 'moon', 1.62, 0, 1737.4, 'earth'),
+  body('io', 'moon', 1.796, 0, 1821.6, 'jupiter'),
+  body('europa', 'moon', 1.315, 0, 1560.8, 'jupiter'),
+  body('ganymede', 'moon', 1.428, 0, 2634.1, 'jupiter'),
+  body('callisto', 'moon', 1.235, 0, 2410.3, 'jupiter'),
+  body('titan', 'moon', 1.352, 5.3, 2574.7, 'saturn'),
+  body('enceladus', 'moon', 0.113, 0, 252.1, 'saturn'),
+  body('triton', 'moon', 0.779, 0, 1353.4, 'neptune'),
+  body('pluto', 'dwarf', 0.62, 0, 1188.3),
+  body('ceres', 'dwarf', 0.28, 0, 469.7),
+  body('custom', 'custom', 9.81, 1.225, 6371)
+];
+
+export const DEFAULT_BODY = 'earth';
+export const CUSTOM_BODY = 'custom';
+
+export function findBody(bodies: CelestialBody[], id: string): CelestialBody | undefined {
+  return bodies.find(entry => entry.id === id);
+}
+
+const STORAGE_KEY = 'freefall.bodies';
+
+// The control panel parameter each numeric field of a user body is bounded by
+export const BODY_PARAMETERS: Record<'gravity' | 'atmosphereDensity' | 'radius', ParameterKey> = {
+  gravity: 'gravity',
+  atmosphereDensity: 'density',
+  radius: 'radius'
+};
+
+// Within the same bounds as the control panel, so picking a body never sets
+// a value the form would reject
+const bounded = (key: ParameterKey) => z.number().finite().min(PARAMETER_FIELDS[key].min).max(PARAMETER_FIELDS[key].max);
+
+export const userBodySchema = z.object({
+  id: z.string().min(1),
+  kind: z.literal('user'),
+  name: z.string().trim().min(1).max(60),
+  gravity: bounded(BODY_PARAMETERS.gravity),
+  atmosphereDensity: bounded(BODY_PARAMETERS.atmosphereDensity),
+  radius: bounded(BODY_PARAMETERS.radius)
+});
+
+// Entries that no longer validate are dropped rather than failing the list
+export function loadUserBodies(): CelestialBody[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap(entry => {
+      const result = userBodySchema.safeParse(entry);
+      return result.success ? [result.data as CelestialBody] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserBodies(bodies: CelestialBody[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bodies));
+  } catch {
+    // The bodies then only last for this session
+  }
+}
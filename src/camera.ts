@@ -0,0 +1,100 @@
+/**
+ * World-to-screen mapping for the simulation canvas.
+ *
+ * World heights are in meters above the ground, screen y is in canvas pixels
+ * growing downwards. Horizontal positions only matter for projectile runs;
+ * vertical runs give each object its own lane and ignore `left`.
+ */
+
+export interface Camera {
+  // World x (m) at the left edge of the view
+  left: number;
+  // Height (m) shown at the bottom edge of the view
+  bottom: number;
+  // Pixels per meter, the same on both axes
+  scale: number;
+}
+
+// Region of the world that has to be in view (m)
+export interface WorldBounds {
+  left: number;
+  right: number;
+  top: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// Room kept around the fitted region (px)
+const FIT_MARGIN_BOTTOM = 8;
+const FIT_MARGIN_TOP = 48;
+const FIT_MARGIN_SIDE = 24;
+
+// Even very low drops are framed as if they were this tall (m)
+const MIN_FIT_HEIGHT = 2;
+
+// Closest the ruler ticks may get (px)
+const MIN_TICK_SPACING = 40;
+
+export function worldToScreen(camera: Camera, height: number, viewHeight: number): number {
+  return viewHeight - (height - camera.bottom) * camera.scale;
+}
+
+export function screenToWorld(camera: Camera, y: number, viewHeight: number): number {
+  return camera.bottom + (viewHeight - y) / camera.scale;
+}
+
+export function worldToScreenX(camera: Camera, x: number): number {
+  return (x - camera.left) * camera.scale;
+}
+
+export function screenToWorldX(camera: Camera, screenX: number): number {
+  return camera.left + screenX / camera.scale;
+}
+
+// Frames everything from the ground up to `bounds.top`, centered horizontally
+export function fitCamera(bounds: WorldBounds, view: Viewport): Camera {
+  const verticalScale = (view.height - FIT_MARGIN_BOTTOM - FIT_MARGIN_TOP) / Math.max(bounds.top, MIN_FIT_HEIGHT);
+  const width = bounds.right - bounds.left;
+  const horizontalScale = width > 0 ? (view.width - 2 * FIT_MARGIN_SIDE) / width : Infinity;
+  const scale = Math.min(verticalScale, horizontalScale);
+
+  return {
+    left: (bounds.left + bounds.right) / 2 - view.width / 2 / scale,
+    bottom: -FIT_MARGIN_BOTTOM / scale,
+    scale
+  };
+}
+
+// Scales by `factor` while keeping the point under the screen position in place
+export function zoomAt(camera: Camera, factor: number, screenX: number, screenY: number, view: Viewport): Camera {
+  const anchorX = screenToWorldX(camera, screenX);
+  const anchorY = screenToWorld(camera, screenY, view.height);
+  const scale = camera.scale * factor;
+
+  return {
+    left: anchorX - screenX / scale,
+    bottom: anchorY - (view.height - screenY) / scale,
+    scale
+  };
+}
+
+// Puts the point in the middle of the view
+export function centerOn(camera: Camera, x: number, height: number, view: Viewport): Camera {
+  return {
+    ...camera,
+    left: x - view.width / 2 / camera.scale,
+    bottom: height - view.height / 2 / camera.scale
+  };
+}
+
+// Spacing of ruler ticks in meters: the smallest 1, 2 or 5 × 10ⁿ that keeps
+// the labels readable at the current scale
+export function rulerStep(scale: number): number {
+  const minimum = MIN_TICK_SPACING / scale;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(minimum)));
+  const factor = [1, 2, 5, 10].find(f => f * magnitude >= minimum) ?? 10;
+  return factor * magnitude;
+}
@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { z } from 'zod';
+import { BODY_ICONS, BODY_KINDS, BODY_PARAMETERS, CelestialBody, findBody, userBodySchema } from '../bodies';
+import { PARAMETER_FIELDS, ParameterError, fieldSymbol, fromField, toField } from '../parameters';
+import { createId } from '../storage';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+
+interface BodyPickerProps {
+  bodies: CelestialBody[];
+  value: string;
+  onChange: (body: CelestialBody) => void;
+  onSave: (body: CelestialBody) => void;
+  onRemove: (id: string) => void;
+  bodyName: (id: string) => string;
+  disabled?: boolean;
+  // Off while a lesson runs; editing a body would change the objects on it
+  canEdit?: boolean;
+}
+
+type FormField = 'name' | keyof typeof BODY_PARAMETERS;
+
+// Inputs are kept as typed so half-written numbers are not reformatted
+interface BodyDraft {
+  id: string;
+  fields: Record<FormField, string>;
+}
+
+const FORM_FIELDS: FormField[] = ['name', 'gravity', 'atmosphereDensity', 'radius'];
+
+// Case- and accent-insensitive, so 'jupiter' finds 'Jüpiter'
+function normalize(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// Worded like the parameter form: a missing value, a bound or a typo
+function issueError(issue: z.ZodIssue, text: string): ParameterError {
+  if (text.trim() === '') return 'required';
+  if (issue.code === 'too_small') return 'min';
+  if (issue.code === 'too_big') return 'max';
+  return 'number';
+}
+
+function BodyPicker({ bodies, value, onChange, onSave, onRemove, bodyName, disabled = false, canEdit = true }: BodyPickerProps) {
+  const { t, formatNumber } = useI18n();
+  const units = useUnits();
+  const { symbol, toDisplay } = units;
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<BodyDraft | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<FormField, ParameterError>>>({});
+
+  const selected = findBody(bodies, value);
+  const SelectedIcon = BODY_ICONS[selected?.kind ?? 'custom'];
+
+  // Moons are also found by their planet's name
+  const matches = useMemo(() => {
+    const search = normalize(query.trim());
+    return bodies.filter(body => {
+      const terms = [body.id, bodyName(body.id), ...(body.parent ? [body.parent, bodyName(body.parent)] : [])];
+      return terms.some(term => normalize(term).includes(search));
+    });
+  }, [bodies, query, bodyName]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+    setDraft(null);
+  };
+
+  const pick = (body: CelestialBody) => {
+    onChange(body);
+    close();
+  };
+
+  // A new body starts from the selected one, so presets can be adapted
+  const openForm = (body: CelestialBody | undefined, isNew: boolean) => {
+    const base = body ?? bodies[0];
+    setErrors({});
+    setDraft({
+      id: isNew ? `user-${createId()}` : base.id,
+      fields: {
+        name: isNew ? '' : bodyName(base.id),
+        gravity: String(toField(BODY_PARAMETERS.gravity, base.gravity, units)),
+        atmosphereDensity: String(toField(BODY_PARAMETERS.atmosphereDensity, base.atmosphereDensity, units)),
+        radius: String(toField(BODY_PARAMETERS.radius, base.radius, units))
+      }
+    });
+  };
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const value = (field: keyof typeof BODY_PARAMETERS) => fromField(BODY_PARAMETERS[field], parseFloat(draft.fields[field]), units);
+    const result = userBodySchema.safeParse({
+      id: draft.id,
+      kind: 'user',
+      name: draft.fields.name,
+      gravity: value('gravity'),
+      atmosphereDensity: value('atmosphereDensity'),
+      radius: value('radius')
+    });
+    if (!result.success) {
+      setErrors(Object.fromEntries(result.error.issues.map(issue => {
+        const field = issue.path[0] as FormField;
+        return [field, issueError(issue, draft.fields[field])];
+      })));
+      return;
+    }
+
+    // A new body is picked right away; edits keep the current choice
+    const body = result.data as CelestialBody;
+    const isNew = !findBody(bodies, body.id);
+    onSave(body);
+    if (isNew) {
+      pick(body);
+    } else {
+      setDraft(null);
+    }
+  };
+
+  // Gravity is typed in the display unit of accelerations
+  const fieldLabel = (field: FormField) => field === 'gravity'
+    ? t.bodyPicker.gravity(symbol('acceleration'))
+    : t.bodyPicker[field];
+  // Bounds are shown in the unit the field is typed in
+  const fieldError = (field: FormField, error: ParameterError) => {
+    if (field === 'name') return t.bodyPicker.errors.name;
+    const key = BODY_PARAMETERS[field];
+    const format = (value: number) => `${formatNumber(toField(key, value, units), 0, 4)} ${fieldSymbol(key, units)}`.trim();
+    if (error === 'min') return t.parameters.errors.min(format(PARAMETER_FIELDS[key].min));
+    if (error === 'max') return t.parameters.errors.max(format(PARAMETER_FIELDS[key].max));
+    return t.parameters.errors[error];
+  };
+
+  const renderBody = (body: CelestialBody) => {
+    const Icon = BODY_ICONS[body.kind];
+    const isSelected = body.id === value;
+
+    return (
+      <li key={body.id} role="option" aria-selected={isSelected} className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => pick(body)}
+          className={`pagination-button flex-1 flex items-center gap-2 text-left ${isSelected ? 'active' : ''}`}
+        >
+          <Icon size={14} className="shrink-0" />
+          <span className="flex-1 min-w-0 truncate">
+            {bodyName(body.id)}
+            {body.parent && (
+              <span className="text-xs text-[var(--light-gray)]"> · {t.bodyPicker.moonOf(bodyName(body.parent))}</span>
+            )}
+          </span>
+          <span className="text-xs text-[var(--light-gray)]">
+            {formatNumber(toDisplay('acceleration', body.gravity))} {symbol('acceleration')}
+          </span>
+        </button>
+        {body.kind === 'user' && canEdit && (
+          <>
+            <button
+              type="button"
+              onClick={() => openForm(body, false)}
+              className="pagination-button"
+              title={t.bodyPicker.editBody}
+              aria-label={t.bodyPicker.editBody}
+            >
+              <Pencil size={14} />
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(body.id)}
+              className="pagination-button"
+              title={t.bodyPicker.deleteBody}
+              aria-label={t.bodyPicker.deleteBody}
+            >
+              <Trash2 size={14} />
+            </button>
+          </>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="modern-select w-full flex items-center gap-2 text-left disabled:opacity-50 disabled:cursor-not-allowed"
+        disabled={disabled}
+        aria-expanded={isOpen}
+      >
+        <SelectedIcon size={16} className="text-[var(--neon-cyan)] shrink-0" />
+        <span className="flex-1 truncate">{bodyName(value)}</span>
+        <ChevronDown size={16} />
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Search size={16} className="text-[var(--light-gray)]" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') close();
+                if (e.key === 'Enter' && matches.length > 0) pick(matches[0]);
+              }}
+              placeholder={t.bodyPicker.search}
+              aria-label={t.bodyPicker.search}
+              className="modern-input flex-1"
+              autoFocus
+            />
+          </div>
+
+          {matches.length === 0 ? (
+            <p className="text-sm text-[var(--light-gray)]">{t.bodyPicker.noMatch}</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto space-y-1 pr-1" role="listbox">
+              {BODY_KINDS.map(kind => {
+                const group = matches.filter(body => body.kind === kind);
+                if (group.length === 0) return null;
+
+                return (
+                  <React.Fragment key={kind}>
+                    <li className="info-card-label pt-2" role="presentation">{t.bodyKinds[kind]}</li>
+                    {group.map(renderBody)}
+                  </React.Fragment>
+                );
+              })}
+            </ul>
+          )}
+
+          {draft ? (
+            <form onSubmit={saveDraft} className="info-card space-y-2">
+              {FORM_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="block text-xs text-[var(--light-gray)] mb-1">
+                    {fieldLabel(field)}
+                  </label>
+                  <input
+                    type={field === 'name' ? 'text' : 'number'}
+                    value={draft.fields[field]}
+                    onChange={(e) => setDraft({ ...draft, fields: { ...draft.fields, [field]: e.target.value } })}
+                    step="any"
+                    className="modern-input w-full"
+                  />
+                  {errors[field] && (
+                    <p className="text-xs text-[#F87171] mt-1">{fieldError(field, errors[field])}</p>
+                  )}
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-2">
+                <button type="submit" className="modern-button modern-button-primary">
+                  {t.bodyPicker.save}
+                </button>
+                <button type="button" onClick={() => setDraft(null)} className="modern-button modern-button-secondary">
+                  {t.bodyPicker.cancel}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => openForm(selected, true)}
+              className="modern-button modern-button-secondary w-full flex items-center justify-center gap-2"
+            >
+              <Plus size={16} />
+              {t.bodyPicker.newBody}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BodyPicker;
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SimulationData } from '../physics/engine';
+import { DragParams } from '../physics/drag';
+import { FIT_MODELS, FitEstimate, FitModel, FitPoint, dragCoefficientOf, fitFall } from '../physics/fitting';
+import { MeasuredSeries } from '../measurements';
+import { NumberFormatter } from '../i18n';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+import { UnitQuantity } from '../units';
+
+type FitSource = 'simulation' | 'measurement';
+
+interface CurveFitPanelProps {
+  // Selected object's run and its settings, used for the reference g and to
+  // turn a fitted terminal velocity into a drag coefficient
+  objectName: string;
+  simulated: SimulationData[];
+  mass: number;
+  drag: DragParams;
+  referenceName: string;
+  referenceGravity: number;
+  measured: MeasuredSeries | null;
+}
+
+interface FitWindow {
+  start: number;
+  end: number;
+}
+
+const SOURCES: FitSource[] = ['simulation', 'measurement'];
+
+const DATA_COLOR = '#00F5FF';
+const FIT_COLOR = '#E600FF';
+
+// Levenberg-Marquardt reruns while the simulation plays, so long runs are thinned
+const MAX_FIT_POINTS = 400;
+
+// Uncertainty to two significant digits, value to the same decimal place
+function formatEstimate(formatNumber: NumberFormatter, { value, uncertainty }: FitEstimate, unit = ''): string {
+  const decimals = uncertainty > 0 && Number.isFinite(uncertainty)
+    ? Math.min(6, Math.max(0, 1 - Math.floor(Math.log10(uncertainty))))
+    : 3;
+  return `${formatNumber(value, decimals)} ± ${formatNumber(uncertainty, decimals)}${unit && ` ${unit}`}`;
+}
+
+function CurveFitPanel({
+  objectName,
+  simulated,
+  mass,
+  drag,
+  referenceName,
+  referenceGravity,
+  measured
+}: CurveFitPanelProps) {
+  const { t, formatNumber, formatScientific } = useI18n();
+  const { symbol, toDisplay } = useUnits();
+  const [source, setSource] = useState<FitSource>('simulation');
+  const [model, setModel] = useState<FitModel>('quadratic');
+  const [fitWindow, setFitWindow] = useState<FitWindow | null>(null);
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
+
+  const activeSource: FitSource = source === 'measurement' && measured ? 'measurement' : 'simulation';
+
+  const points = useMemo<FitPoint[]>(() => {
+    if (activeSource === 'measurement') return measured.points;
+    return simulated.map(({ time, height }) => ({ time, height }));
+  }, [activeSource, measured, simulated]);
+
+  // Without a picked window a simulated run is fitted up to its first impact,
+  // where the parabola ends
+  const defaultWindow = useMemo<FitWindow | null>(() => {
+    if (points.length === 0) return null;
+    const impact = activeSource === 'simulation' ? simulated.find(row => row.impact) : undefined;
+    return { start: points[0].time, end: impact ? impact.time : points[points.length - 1].time };
+  }, [points, activeSource, simulated]);
+
+  const range = fitWindow ?? defaultWindow;
+
+  const windowPoints = useMemo(() => {
+    if (!range) return [];
+    const inside = points.filter(point => point.time >= range.start && point.time <= range.end);
+    const stride = Math.max(1, Math.ceil(inside.length / MAX_FIT_POINTS));
+    return inside.filter((_, index) => index % stride === 0);
+  }, [points, range]);
+
+  const result = useMemo(() => fitFall(windowPoints, model), [windowPoints, model]);
+  const dragEstimate = result && dragCoefficientOf(result, mass, drag);
+
+  const rows = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(points.length / MAX_FIT_POINTS));
+    return points
+      .filter((_, index) => index % stride === 0 || index === points.length - 1)
+      .map(({ time, height }) => ({
+        time,
+        height: toDisplay('length', height),
+        fit: result && range && time >= range.start && time <= range.end ? toDisplay('length', result.predict(time)) : undefined
+      }));
+  }, [points, result, range, toDisplay]);
+
+  const changeSource = (next: FitSource) => {
+    setSource(next);
+    setFitWindow(null);
+  };
+
+  // Dragging across the chart picks the window; a plain click keeps the old one
+  const finishSelection = () => {
+    if (dragStart !== null && dragEnd !== null && dragStart !== dragEnd) {
+      setFitWindow({ start: Math.min(dragStart, dragEnd), end: Math.max(dragStart, dragEnd) });
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  // Fits run in SI; estimates are shown in the display unit of their quantity
+  const formatQuantity = (quantity: UnitQuantity, { value, uncertainty }: FitEstimate) => formatEstimate(
+    formatNumber,
+    { value: toDisplay(quantity, value), uncertainty: toDisplay(quantity, uncertainty) },
+    symbol(quantity)
+  );
+
+  const difference = result ? result.gravity.value - referenceGravity : 0;
+  const displayMass = `${formatNumber(toDisplay('mass', mass), 0, 3)} ${symbol('mass')}`;
+  // Distance from the reference in standard deviations
+  const deviation = result && result.gravity.uncertainty > 0 ? Math.abs(difference) / result.gravity.uncertainty : 0;
+
+  return (
+    <div className="glass-card">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-[var(--neon-cyan)]">
+          {t.fit.title}
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          {SOURCES.map(key => (
+            <button
+              key={key}
+              onClick={() => changeSource(key)}
+              disabled={key === 'measurement' && !measured}
+              className={`pagination-button px-3 ${activeSource === key ? 'active' : ''} disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {t.fit.sources[key]}
+            </button>
+          ))}
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value as FitModel)}
+            className="modern-select"
+          >
+            {FIT_MODELS.map(key => (
+              <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
+                {t.fit.models[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-[var(--light-gray)] mb-4">
+        {t.fit.description(activeSource === 'measurement' ? measured.name : objectName)}
+      </p>
+
+      {points.length === 0 ? (
+        <p className="text-center py-8 text-[var(--light-gray)]">
+          {t.fit.noData}
+        </p>
+      ) : (
+        <>
+          <div className="h-64 select-none">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={rows}
+                margin={{ top: 8, right: 16, bottom: 8, left: 8 }}
+                onMouseDown={(state) => {
+                  if (typeof state?.activeLabel === 'number') {
+                    setDragStart(state.activeLabel);
+                    setDragEnd(state.activeLabel);
+                  }
+                }}
+                onMouseMove={(state) => {
+                  if (dragStart !== null && typeof state?.activeLabel === 'number') setDragEnd(state.activeLabel);
+                }}
+                onMouseUp={finishSelection}
+                onMouseLeave={finishSelection}
+              >
+                <CartesianGrid stroke="rgba(0, 245, 255, 0.1)" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="var(--light-gray)" unit=" s" />
+                <YAxis stroke="var(--light-gray)" width={56} tickFormatter={(value: number) => formatNumber(value, 1)} />
+                <Tooltip
+                  contentStyle={{ background: 'var(--deep-space-blue)', border: '1px solid var(--card-border)' }}
+                  formatter={(value: number) => `${formatNumber(value, 3)} ${symbol('length')}`}
+                  labelFormatter={(label: number) => `t = ${formatNumber(label)} s`}
+                />
+                <Legend />
+                {range && (
+                  <ReferenceArea x1={range.start} x2={range.end} fill="var(--neon-cyan)" fillOpacity={0.08} />
+                )}
+                {dragStart !== null && dragEnd !== null && (
+                  <ReferenceArea x1={dragStart} x2={dragEnd} fill="var(--energetic-magenta)" fillOpacity={0.15} />
+                )}
+                <Line
+                  dataKey="height"
+                  name={t.fit.data}
+                  stroke="none"
+                  dot={{ r: 2, fill: DATA_COLOR, stroke: 'none' }}
+                  legendType="circle"
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="fit"
+                  name={t.fit.curve}
+                  stroke={FIT_COLOR}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex items-center justify-between flex-wrap gap-2 mt-2 mb-4 text-sm text-[var(--light-gray)]">
+            <span>
+              {t.fit.range(formatNumber(range.start), formatNumber(range.end), windowPoints.length)}
+            </span>
+            {fitWindow && (
+              <button onClick={() => setFitWindow(null)} className="pagination-button px-3">
+                {t.fit.resetRange}
+              </button>
+            )}
+          </div>
+
+          {!result ? (
+            <p className="text-sm text-[#F87171]">
+              {t.fit.failed(model === 'quadratic' ? 4 : 5)}
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div className="info-card">
+                <div className="info-card-label">{t.fit.gravity}</div>
+                <div className="info-card-value text-base">{formatQuantity('acceleration', result.gravity)}</div>
+              </div>
+              <div className="info-card">
+                <div className="info-card-label">{t.fit.initialVelocity}</div>
+                <div className="info-card-value text-base">{formatQuantity('speed', result.initialVelocity)}</div>
+              </div>
+              <div className="info-card">
+                <div className="info-card-label">{t.fit.initialHeight}</div>
+                <div className="info-card-value text-base">{formatQuantity('length', result.initialHeight)}</div>
+              </div>
+              {result.terminalVelocity && (
+                <div className="info-card">
+                  <div className="info-card-label">{t.fit.terminalVelocity}</div>
+                  <div className="info-card-value text-base">{formatQuantity('speed', result.terminalVelocity)}</div>
+                </div>
+              )}
+              {dragEstimate && (
+                <div className="info-card">
+                  <div className="info-card-label">
+                    {model === 'linearDrag' ? t.fit.linearDrag : t.fit.quadraticDrag}
+                  </div>
+                  <div className="info-card-value text-base">
+                    {formatEstimate(formatNumber, dragEstimate, model === 'linearDrag' ? 'kg/s' : '')}
+                  </div>
+                </div>
+              )}
+              <div className="info-card">
+                <div className="info-card-label">{t.fit.quality}</div>
+                <div className="info-card-value text-base">
+                  {formatNumber(result.rSquared, 6)} / {formatScientific(toDisplay('length', result.rmse), 2)} {symbol('length')}
+                </div>
+              </div>
+              <div className="info-card col-span-2 md:col-span-3">
+                <div className="info-card-label">{t.fit.reference(referenceName)}</div>
+                <div className={`info-card-value text-base ${deviation <= 2 ? 'text-[#10B981]' : 'text-[#FBBF24]'}`}>
+                  {formatNumber(toDisplay('acceleration', referenceGravity))} {symbol('acceleration')} · {t.fit.difference}
+                  {' '}{difference >= 0 ? '+' : ''}{formatNumber(toDisplay('acceleration', difference), 3)} {symbol('acceleration')}
+                  {' '}({formatNumber((difference / referenceGravity) * 100)}%, {formatNumber(deviation, 1)}σ)
+                </div>
+              </div>
+            </div>
+          )}
+          {dragEstimate && (
+            <p className="text-xs text-[var(--light-gray)] mt-3">
+              {model === 'quadraticDrag'
+                ? t.fit.dragNote(displayMass, formatNumber(drag.area, 0, 4), formatNumber(drag.fluidDensity, 0, 3))
+                : t.fit.dragNote(displayMass, null, null)}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CurveFitPanel;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { SimulationData } from '../physics/engine';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+
+interface DataTableProps {
+  rows: SimulationData[];
+  // Index of rows[0] within the full history, used for stable keys
+  startIndex: number;
+  // History index to highlight, shared with the charts and canvas
+  highlightIndex?: number | null;
+  onRowHover?: (index: number | null) => void;
+  // Projectile runs add the horizontal position and velocity
+  showHorizontal?: boolean;
+  // Imported measurement at each row's time, parallel to `rows`; adds the
+  // measured height and the residual (measured − simulated)
+  measuredHeights?: (number | null)[] | null;
+  // Saved runs compared with this one; each adds its height and velocity at
+  // the rows' times, parallel to `rows` like the measurements
+  overlays?: TableOverlay[];
+}
+
+export interface TableOverlay {
+  name: string;
+  rows: (SimulationData | null)[];
+}
+
+function DataTable({
+  rows,
+  startIndex,
+  highlightIndex = null,
+  onRowHover,
+  showHorizontal = false,
+  measuredHeights = null,
+  overlays = []
+}: DataTableProps) {
+  const { t, formatNumber } = useI18n();
+  const { symbol, toDisplay } = useUnits();
+  const columns = t.table.columns;
+  const length = symbol('length');
+  const speed = symbol('speed');
+  
+  const formatLength = (value: number) => formatNumber(toDisplay('length', value));
+  const formatSpeed = (value: number) => formatNumber(toDisplay('speed', value));
+  
+  const formatImpact = (impact: SimulationData['impact']) => {
+    if (!impact) return '';
+    
+    const rebound = impact.postVelocity === 0 ? t.table.stopped : `${formatSpeed(impact.postVelocity)} ${speed}`;
+    return `${formatSpeed(impact.preVelocity)} ${speed} → ${rebound}, ΔE ${formatNumber(impact.energyLoss)} J`;
+  };
+  
+  // Blank outside the measured time range; subtracting the simulated height
+  // gives the residual
+  const formatMeasured = (measured: number | null | undefined, offset = 0) => {
+    return measured === null || measured === undefined ? '' : formatLength(measured - offset);
+  };
+  
+  return (
+    <table className="data-table">
+      <thead>
+        <tr>
+          <th>{columns.time}</th>
+          <th>{columns.height(length)}</th>
+          <th>{columns.velocity(speed)}</th>
+          <th>{columns.acceleration(symbol('acceleration'))}</th>
+          <th>{columns.displacement(length)}</th>
+          {showHorizontal && <th>{columns.x(length)}</th>}
+          {showHorizontal && <th>{columns.horizontalVelocity(speed)}</th>}
+          <th>{columns.mass(symbol('mass'))}</th>
+          <th>{columns.kineticEnergy}</th>
+          <th>{columns.potentialEnergy}</th>
+          <th>{columns.totalEnergy}</th>
+          <th>{columns.dragLoss}</th>
+          <th>{columns.impactLoss}</th>
+          <th>{columns.impact}</th>
+          {measuredHeights && <th>{columns.measuredHeight(length)}</th>}
+          {measuredHeights && <th>{columns.residual(length)}</th>}
+          {overlays.map((overlay, slot) => (
+            <React.Fragment key={slot}>
+              <th>{t.history.overlayHeight(overlay.name, length)}</th>
+              <th>{t.history.overlayVelocity(overlay.name, speed)}</th>
+            </React.Fragment>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => (
+          <tr
+            key={startIndex + index}
+            className={`${row.impact ? 'impact-row' : ''} ${highlightIndex === startIndex + index ? 'hovered-row' : ''}`}
+            onMouseEnter={() => onRowHover?.(startIndex + index)}
+            onMouseLeave={() => onRowHover?.(null)}
+          >
+            <td>{formatNumber(row.time)}</td>
+            <td>{formatLength(row.height)}</td>
+            <td>{formatSpeed(row.velocity)}</td>
+            <td>{formatNumber(toDisplay('acceleration', row.acceleration))}</td>
+            <td>{formatLength(row.displacement)}</td>
+            {showHorizontal && <td>{formatLength(row.x)}</td>}
+            {showHorizontal && <td>{formatSpeed(row.horizontalVelocity)}</td>}
+            <td>{formatNumber(toDisplay('mass', row.mass), 1)}</td>
+            <td>{formatNumber(row.kineticEnergy)}</td>
+            <td>{formatNumber(row.potentialEnergy)}</td>
+            <td>{formatNumber(row.totalEnergy)}</td>
+            <td>{formatNumber(row.dragLoss)}</td>
+            <td>{formatNumber(row.impactLoss)}</td>
+            <td>{formatImpact(row.impact)}</td>
+            {measuredHeights && <td>{formatMeasured(measuredHeights[index])}</td>}
+            {measuredHeights && <td>{formatMeasured(measuredHeights[index], row.height)}</td>}
+            {overlays.map((overlay, slot) => (
+              <React.Fragment key={slot}>
+                <td>{overlay.rows[index] ? formatLength(overlay.rows[index].height) : ''}</td>
+                <td>{overlay.rows[index] ? formatSpeed(overlay.rows[index].velocity) : ''}</td>
+              </React.Fragment>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default DataTable;
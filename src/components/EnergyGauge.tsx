@@ -0,0 +1,57 @@
+import React from 'react';
+import { EnergyBreakdown } from '../physics/energy';
+import { useI18n } from '../hooks/use-i18n';
+
+interface EnergyGaugeProps {
+  energy: EnergyBreakdown;
+  // Energy at t = 0; the full bar height
+  initialEnergy: number;
+}
+
+const SEGMENTS: { key: Exclude<keyof EnergyBreakdown, 'total'>; color: string }[] = [
+  { key: 'potential', color: '#60A5FA' },
+  { key: 'kinetic', color: '#F87171' },
+  { key: 'dragLoss', color: '#FBBF24' },
+  { key: 'impactLoss', color: '#E600FF' }
+];
+
+function EnergyGauge({ energy, initialEnergy }: EnergyGaugeProps) {
+  const { t, formatNumber } = useI18n();
+  
+  // Numeric drift can push the sum above the initial energy; scale to whichever is larger
+  const scale = Math.max(initialEnergy, energy.total + energy.dragLoss + energy.impactLoss, 1e-9);
+  
+  return (
+    <div className="flex flex-col items-center gap-3 w-32">
+      <div className="info-card-label">{t.energy.title}</div>
+      
+      <div className="relative w-10 flex-1 min-h-[240px] rounded-lg overflow-hidden border border-[var(--card-border)] bg-black/20 flex flex-col-reverse">
+        {SEGMENTS.map(({ key, color }) => (
+          <div
+            key={key}
+            title={`${t.energy[key]}: ${formatNumber(energy[key])} J`}
+            style={{ height: `${(energy[key] / scale) * 100}%`, background: color }}
+          />
+        ))}
+      </div>
+      
+      <div className="space-y-1 text-xs w-full">
+        {SEGMENTS.map(({ key, color }) => (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-1 text-[var(--light-gray)]">
+              <span className="inline-block w-2 h-2 rounded-sm" style={{ background: color }} />
+              {t.energy[key]}
+            </span>
+            <span className="text-[var(--near-white)]">{formatNumber(energy[key], 1)}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-2 border-t border-[var(--card-border)] pt-1">
+          <span className="text-[var(--light-gray)]">{t.energy.mechanical}</span>
+          <span className="text-[var(--neon-cyan)]">{formatNumber(energy.total, 1)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EnergyGauge;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { I18nContext } from '../hooks/use-i18n';
 
 const searilizeError = (error: any) => {
   if (error instanceof Error) {
@@ -11,6 +12,9 @@ export class ErrorBoundary extends React.Component<
   { children: React.ReactNode },
   { hasError: boolean; error: any }
 > {
+  static contextType = I18nContext;
+  declare context: React.ContextType<typeof I18nContext>;
+
   constructor(props: { children: React.ReactNode }) {
     super(props);
     this.state = { hasError: false, error: null };
@@ -24,7 +28,7 @@ export class ErrorBoundary extends React.Component<
     if (this.state.hasError) {
       return (
         <div className="p-4 border border-red-500 rounded">
-          <h2 className="text-red-500">Something went wrong.</h2>
+          <h2 className="text-red-500">{this.context.t.errorBoundary.title}</h2>
           <pre className="mt-2 text-sm">{searilizeError(this.state.error)}</pre>
         </div>
       );
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import Modal from '../Modal';
+import {
+  CsvOptions,
+  ExportRun,
+  ExportSettings,
+  ImageExportError,
+  ImageExportErrorCode,
+  canvasToSVG,
+  chartsToSVG,
+  defaultCsvOptions,
+  downloadBlob,
+  svgToPNG,
+  toCSV,
+  toJSON
+} from '../export';
+import { LOCALES, Locale } from '../i18n';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+
+type ExportFormat = 'csv' | 'json' | 'image';
+type ImageTarget = 'canvas' | 'charts';
+type ImageFormat = 'png' | 'svg';
+type ExportError = 'imageNotFound' | ImageExportErrorCode | 'failed';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  runs: ExportRun[];
+  settings: ExportSettings;
+  // Sources for image exports
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  chartsRef: React.RefObject<HTMLDivElement>;
+}
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'image'];
+
+const HEADER_LANGUAGES = Object.fromEntries(
+  Object.entries(LOCALES).map(([key, { name }]) => [key, name])
+) as Record<Locale, string>;
+
+const IMAGE_FORMATS: Record<ImageFormat, string> = {
+  png: 'PNG',
+  svg: 'SVG'
+};
+
+function ExportDialog({ isOpen, onClose, runs, settings, canvasRef, chartsRef }: ExportDialogProps) {
+  const { locale, t } = useI18n();
+  const units = useUnits();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(() => defaultCsvOptions(locale));
+  const [imageTarget, setImageTarget] = useState<ImageTarget>('canvas');
+  const [imageFormat, setImageFormat] = useState<ImageFormat>('png');
+  const [filename, setFilename] = useState(t.export.defaultFilename);
+  const [error, setError] = useState<ExportError | null>(null);
+
+  // Switching the language switches the spreadsheet conventions with it; a
+  // file name the user typed is kept
+  useEffect(() => {
+    setCsvOptions(defaultCsvOptions(locale));
+    setFilename(prev => Object.values(LOCALES).some(({ messages }) => messages.export.defaultFilename === prev)
+      ? LOCALES[locale].messages.export.defaultFilename
+      : prev);
+  }, [locale]);
+
+  const hasData = runs.some(run => run.data.length > 0);
+  const canExport = format === 'image' ? imageTarget === 'canvas' || hasData : hasData;
+
+  // A comma is ambiguous as both separator and decimal mark; such cells get
+  // quoted, which not every program reads back
+  const isAmbiguous = csvOptions.separator === ',' && csvOptions.decimal === ',';
+
+  const updateCsvOptions = (changes: Partial<CsvOptions>) => {
+    setCsvOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    const base = filename.trim() || t.export.defaultFilename;
+
+    try {
+      if (format === 'csv') {
+        downloadBlob(new Blob([toCSV(runs, csvOptions, units)], { type: 'text/csv;charset=utf-8;' }), `${base}.csv`);
+      } else if (format === 'json') {
+        downloadBlob(new Blob([toJSON(runs, settings)], { type: 'application/json' }), `${base}.json`);
+      } else {
+        const source = imageTarget === 'canvas'
+          ? canvasRef.current && canvasToSVG(canvasRef.current)
+          : chartsRef.current && chartsToSVG(chartsRef.current);
+        if (!source) {
+          setError('imageNotFound');
+          return;
+        }
+
+        const blob = imageFormat === 'svg'
+          ? new Blob([source.markup], { type: 'image/svg+xml;charset=utf-8' })
+          : await svgToPNG(source);
+        downloadBlob(blob, `${base}_${t.export.imageSuffixes[imageTarget]}.${imageFormat}`);
+      }
+      onClose();
+    } catch (e) {
+      setError(e instanceof ImageExportError ? e.code : 'failed');
+    }
+  };
+
+  const renderOptions = <T extends string>(
+    label: string,
+    options: Record<T, string>,
+    value: T,
+    onChange: (value: T) => void
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+        {label}
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(options) as T[]).map(key => (
+          <button
+            key={key}
+            onClick={() => onChange(key)}
+            className={`pagination-button px-3 ${value === key ? 'active' : ''}`}
+          >
+            {options[key]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t.export.title}>
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {FORMATS.map(key => (
+            <button
+              key={key}
+              onClick={() => setFormat(key)}
+              className={`info-card text-left ${format === key ? 'border-[var(--neon-cyan)]' : ''}`}
+            >
+              <div className="info-card-value">{t.export.formats[key].name}</div>
+              <div className="info-card-label">{t.export.formats[key].description}</div>
+            </button>
+          ))}
+        </div>
+
+        {format === 'csv' && (
+          <div className="space-y-4">
+            {renderOptions(t.export.separator, t.export.separators, csvOptions.separator, separator => updateCsvOptions({ separator }))}
+            {renderOptions(t.export.decimalMark, t.export.decimalMarks, csvOptions.decimal, decimal => updateCsvOptions({ decimal }))}
+            {renderOptions(t.export.headerLanguage, HEADER_LANGUAGES, csvOptions.language, language => updateCsvOptions({ language }))}
+            {isAmbiguous && (
+              <p className="text-sm text-[#FBBF24]">
+                {t.export.ambiguous}
+              </p>
+            )}
+          </div>
+        )}
+
+        {format === 'image' && (
+          <div className="space-y-4">
+            {renderOptions<ImageTarget>(t.export.content, t.export.imageTargets, imageTarget, setImageTarget)}
+            {renderOptions(t.export.imageFormat, IMAGE_FORMATS, imageFormat, setImageFormat)}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+            {t.export.filename}
+          </label>
+          <input
+            type="text"
+            value={filename}
+            onChange={(e) => setFilename(e.target.value)}
+            className="modern-input w-full"
+          />
+        </div>
+
+        {!canExport && (
+          <p className="text-sm text-[var(--light-gray)]">
+            {t.common.noData}
+          </p>
+        )}
+        {error && <p className="text-sm text-[#F87171]">{t.export[error]}</p>}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className="modern-button modern-button-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            {t.export.download}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default ExportDialog;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Check, FolderOpen, Pencil, Save, Trash2 } from 'lucide-react';
+import { Library } from '../hooks/use-library';
+import { useI18n } from '../hooks/use-i18n';
+import { formatDateTime } from '../i18n';
+import { SavedRun, SavedScenario, MAX_SAVED_RUNS } from '../storage';
+
+interface HistoryPanelProps {
+  library: Library;
+  // The current setup, saved as is
+  scenarioQuery: string;
+  onLoadScenario: (scenario: SavedScenario) => void;
+  onLoadRun: (run: SavedRun) => void;
+  // Off while a lesson runs, so its locked parameters stay as set
+  canLoad?: boolean;
+  // Runs overlaid on the charts and table, at most MAX_COMPARED
+  compareIds: string[];
+  onCompareChange: (ids: string[]) => void;
+}
+
+interface EntryProps {
+  name: string;
+  detail: string;
+  onLoad: () => void;
+  canLoad: boolean;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  children?: React.ReactNode;
+}
+
+export const MAX_COMPARED = 2;
+
+// One saved item; the name turns into an input while renaming
+function Entry({ name, detail, onLoad, canLoad, onRename, onDelete, children }: EntryProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== name) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <li className="info-card flex items-center gap-3">
+      {children}
+      <div className="flex-1 min-w-0">
+        {draft === null ? (
+          <div className="text-[var(--near-white)] truncate">{name}</div>
+        ) : (
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') setDraft(null);
+            }}
+            className="modern-input w-full"
+            autoFocus
+          />
+        )}
+        <div className="info-card-label">{detail}</div>
+      </div>
+      <button
+        onClick={onLoad}
+        disabled={!canLoad}
+        className="pagination-button disabled:opacity-50 disabled:cursor-not-allowed"
+        title={t.history.load}
+        aria-label={t.history.load}
+      >
+        <FolderOpen size={16} />
+      </button>
+      <button
+        onClick={() => setDraft(name)}
+        className="pagination-button"
+        title={t.history.rename}
+        aria-label={t.history.rename}
+      >
+        <Pencil size={16} />
+      </button>
+      <button onClick={onDelete} className="pagination-button" title={t.history.delete} aria-label={t.history.delete}>
+        <Trash2 size={16} />
+      </button>
+    </li>
+  );
+}
+
+function runDuration(run: SavedRun): number {
+  return Math.max(0, ...run.objects.map(({ samples }) => samples[samples.length - 1]?.time ?? 0));
+}
+
+function HistoryPanel({ library, scenarioQuery, onLoadScenario, onLoadRun, canLoad = true, compareIds, onCompareChange }: HistoryPanelProps) {
+  const { locale, t, formatNumber } = useI18n();
+  const [scenarioName, setScenarioName] = useState('');
+
+  const saveScenario = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = scenarioName.trim() || t.history.defaultScenarioName(library.scenarios.length + 1);
+    library.saveScenario(name, scenarioQuery);
+    setScenarioName('');
+  };
+
+  const toggleCompare = (id: string) => {
+    onCompareChange(compareIds.includes(id) ? compareIds.filter(other => other !== id) : [...compareIds, id]);
+  };
+
+  return (
+    <div className="glass-card">
+      <h2 className="text-xl font-semibold text-[var(--neon-cyan)] mb-4">
+        {t.history.title}
+      </h2>
+
+      {library.failed && <p className="text-sm text-[#F87171] mb-4">{t.history.storageFailed}</p>}
+      {!canLoad && <p className="text-sm text-[#FBBF24] mb-4">{t.history.lockedByLesson}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-[var(--light-gray)] mb-2">{t.history.scenarios}</h3>
+          <form onSubmit={saveScenario} className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              placeholder={t.history.scenarioName}
+              className="modern-input flex-1"
+            />
+            <button type="submit" className="modern-button modern-button-secondary flex items-center gap-2">
+              <Save size={16} />
+              {t.history.save}
+            </button>
+          </form>
+          {library.scenarios.length === 0 ? (
+            <p className="text-sm text-[var(--light-gray)]">{t.history.noScenarios}</p>
+          ) : (
+            <ul className="space-y-2">
+              {library.scenarios.map(scenario => (
+                <Entry
+                  key={scenario.id}
+                  name={scenario.name}
+                  detail={formatDateTime(scenario.savedAt, locale)}
+                  onLoad={() => onLoadScenario(scenario)}
+                  canLoad={canLoad}
+                  onRename={(name) => name && library.renameScenario(scenario, name)}
+                  onDelete={() => library.removeScenario(scenario.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-[var(--light-gray)] mb-2">{t.history.runs}</h3>
+          <p className="text-sm text-[var(--light-gray)] mb-3">
+            {t.history.runsIntro(MAX_SAVED_RUNS)} {t.history.compareHint}
+          </p>
+          {library.runs.length === 0 ? (
+            <p className="text-sm text-[var(--light-gray)]">{t.history.noRuns}</p>
+          ) : (
+            <ul className="space-y-2">
+              {library.runs.map(run => {
+                const isCompared = compareIds.includes(run.id);
+                return (
+                  <Entry
+                    key={run.id}
+                    name={run.name ?? formatDateTime(run.savedAt, locale)}
+                    detail={t.history.runSummary(run.objects.length, formatNumber(runDuration(run)))}
+                    onLoad={() => onLoadRun(run)}
+                    canLoad={canLoad}
+                    onRename={(name) => library.renameRun(run, name)}
+                    onDelete={() => library.removeRun(run.id)}
+                  >
+                    <button
+                      onClick={() => toggleCompare(run.id)}
+                      disabled={!isCompared && compareIds.length >= MAX_COMPARED}
+                      className={`pagination-button disabled:opacity-50 disabled:cursor-not-allowed ${isCompared ? 'active' : ''}`}
+                      title={t.history.compare}
+                      aria-label={t.history.compare}
+                      aria-pressed={isCompared}
+                    >
+                      <Check size={16} />
+                    </button>
+                  </Entry>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SimulationParams } from '../physics/engine';
+import { COMPARISON_METRICS, ComparisonMetric, compareIntegrators } from '../physics/comparison';
+import { INTEGRATORS, NumericIntegrator } from '../physics/integrators';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+import { UnitQuantity } from '../units';
+
+interface IntegratorComparisonProps {
+  params: SimulationParams;
+}
+
+const METHODS = Object.keys(INTEGRATORS) as NumericIntegrator[];
+
+// Errors are computed in SI; these are shown in the display units, energy in J
+const METRIC_QUANTITIES: Partial<Record<ComparisonMetric, UnitQuantity>> = {
+  height: 'length',
+  velocity: 'speed'
+};
+
+function IntegratorComparison({ params }: IntegratorComparisonProps) {
+  const { t, formatNumber, formatScientific } = useI18n();
+  const { symbol, toDisplay } = useUnits();
+  const [metric, setMetric] = useState<ComparisonMetric>('height');
+  
+  const quantity = METRIC_QUANTITIES[metric];
+  const unit = quantity ? symbol(quantity) : COMPARISON_METRICS[metric].unit;
+  
+  const rows = useMemo(() => {
+    const errors = compareIntegrators(params, metric);
+    if (!quantity) return errors;
+    return errors.map(row => ({
+      ...row,
+      ...Object.fromEntries(METHODS.map(method => [method, toDisplay(quantity, row[method])]))
+    }));
+  }, [params, metric, quantity, toDisplay]);
+  
+  // Largest absolute deviation of each method over the whole run
+  const maxErrors = useMemo(() => {
+    return METHODS.map(method => ({
+      method,
+      value: rows.reduce((max, row) => Math.max(max, Math.abs(row[method])), 0)
+    }));
+  }, [rows]);
+  
+  return (
+    <div className="glass-card">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-[var(--neon-cyan)]">
+          {t.comparison.title}
+        </h2>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as ComparisonMetric)}
+          className="modern-select"
+        >
+          {(Object.keys(COMPARISON_METRICS) as ComparisonMetric[]).map(key => (
+            <option key={key} value={key} className="bg-[var(--deep-space-blue)]">
+              {t.comparison.metrics[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+      
+      <p className="text-sm text-[var(--light-gray)] mb-4">
+        {t.comparison.description(formatNumber(params.timeStep, 0, 4))}
+      </p>
+      
+      {rows.length === 0 ? (
+        <p className="text-center py-8 text-[var(--light-gray)]">
+          {t.comparison.noAnalytic}
+        </p>
+      ) : (
+        <>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+                <CartesianGrid stroke="rgba(0, 245, 255, 0.1)" />
+                <XAxis dataKey="time" stroke="var(--light-gray)" unit=" s" type="number" domain={['dataMin', 'dataMax']} />
+                <YAxis stroke="var(--light-gray)" tickFormatter={(value: number) => formatScientific(value, 1)} width={72} />
+                <Tooltip
+                  contentStyle={{ background: 'var(--deep-space-blue)', border: '1px solid var(--card-border)' }}
+                  formatter={(value: number) => `${formatScientific(value, 3)} ${unit}`}
+                  labelFormatter={(label: number) => `t = ${formatNumber(label)} s`}
+                />
+                <Legend />
+                {METHODS.map(method => (
+                  <Line
+                    key={method}
+                    dataKey={method}
+                    name={t.integrators[method]}
+                    stroke={INTEGRATORS[method].color}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+            {maxErrors.map(({ method, value }) => (
+              <div key={method} className="info-card">
+                <div className="info-card-label">{t.integrators[method]}</div>
+                <div className="info-card-value" style={{ color: INTEGRATORS[method].color }}>
+                  {formatScientific(value, 2)} {unit}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default IntegratorComparison;
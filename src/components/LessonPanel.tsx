@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Check, GraduationCap, LogOut, RotateCcw, X } from 'lucide-react';
+import { Grade, Lesson, LessonCatalog, LessonQuestion, QUANTITY_UNITS, grade, loadLessons, localize } from '../lessons';
+import { SimulationData } from '../physics/engine';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+
+interface LessonPanelProps {
+  // The running lesson, or null while one is being picked
+  lesson: Lesson | null;
+  onStart: (lesson: Lesson) => void;
+  onExit: () => void;
+  // Recorded rows of every object, in the order of the objects
+  histories: SimulationData[][];
+  // Answers are checked once every object has landed
+  isFinished: boolean;
+}
+
+interface WorksheetProps {
+  lesson: Lesson;
+  histories: SimulationData[][];
+  isFinished: boolean;
+  onExit: () => void;
+}
+
+// Questions of one lesson; remounted per lesson so answers start empty
+function Worksheet({ lesson, histories, isFinished, onExit }: WorksheetProps) {
+  const { locale, t, formatNumber } = useI18n();
+  const { symbol, toDisplay, fromDisplay } = useUnits();
+  // Kept as typed, like the other number drafts
+  const [predictions, setPredictions] = useState<string[]>(() => lesson.questions.map(() => ''));
+  const [grades, setGrades] = useState<(Grade | null)[] | null>(null);
+
+  const values = predictions.map(prediction => parseFloat(prediction));
+  const canCheck = isFinished && values.every(Number.isFinite);
+  const correctCount = grades?.filter(result => result?.correct).length ?? 0;
+
+  // Predictions are typed in the display units, the simulated answers kept in SI
+  const unitOf = (question: LessonQuestion) => {
+    const quantity = QUANTITY_UNITS[question.quantity];
+    return quantity === 's' ? 's' : symbol(quantity);
+  };
+  const toSI = (question: LessonQuestion, value: number) => {
+    const quantity = QUANTITY_UNITS[question.quantity];
+    return quantity === 's' ? value : fromDisplay(quantity, value);
+  };
+  const fromSI = (question: LessonQuestion, value: number) => {
+    const quantity = QUANTITY_UNITS[question.quantity];
+    return quantity === 's' ? value : toDisplay(quantity, value);
+  };
+
+  const check = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canCheck) return;
+
+    setGrades(lesson.questions.map((question, index) => (
+      grade(question, toSI(question, values[index]), histories[question.object - 1] ?? [])
+    )));
+  };
+
+  return (
+    <form onSubmit={check} className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-[var(--near-white)]">{localize(lesson.title, locale)}</h3>
+        {lesson.intro && <p className="text-sm text-[var(--light-gray)] mt-1">{localize(lesson.intro, locale)}</p>}
+        {lesson.locked.length > 0 && <p className="text-xs text-[var(--light-gray)] mt-2">{t.lessons.locked}</p>}
+      </div>
+
+      <ol className="space-y-3">
+        {lesson.questions.map((question, index) => {
+          const unit = unitOf(question);
+          const result = grades?.[index];
+
+          return (
+            <li key={index} className="info-card space-y-2">
+              <p className="text-[var(--near-white)]">{index + 1}. {localize(question.prompt, locale)}</p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={predictions[index]}
+                  onChange={(e) => setPredictions(prev => prev.map((prediction, i) => i === index ? e.target.value : prediction))}
+                  step="any"
+                  placeholder={t.lessons.prediction}
+                  aria-label={t.lessons.prediction}
+                  className="modern-input flex-1"
+                  disabled={grades !== null}
+                />
+                <span className="text-sm text-[var(--light-gray)] w-10">{unit}</span>
+              </div>
+              <div className="info-card-label">{t.lessons.tolerance(formatNumber(question.tolerance))}</div>
+              {grades && (result ? (
+                <div className={`flex items-center gap-2 text-sm ${result.correct ? 'text-[#10B981]' : 'text-[#F87171]'}`}>
+                  {result.correct ? <Check size={16} /> : <X size={16} />}
+                  <span>
+                    {result.correct ? t.lessons.correct : t.lessons.incorrect} · {t.lessons.simulated(`${formatNumber(fromSI(question, result.expected))} ${unit}`)}
+                  </span>
+                </div>
+              ) : (
+                <p className="text-sm text-[#FBBF24]">{t.lessons.unanswered}</p>
+              ))}
+            </li>
+          );
+        })}
+      </ol>
+
+      {grades ? (
+        <p className="text-[var(--neon-cyan)] font-medium">{t.lessons.score(correctCount, lesson.questions.length)}</p>
+      ) : (
+        !canCheck && <p className="text-sm text-[var(--light-gray)]">{t.lessons.runFirst}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {grades ? (
+          <button
+            type="button"
+            onClick={() => setGrades(null)}
+            className="modern-button modern-button-primary flex items-center gap-2"
+          >
+            <RotateCcw size={16} />
+            {t.lessons.retry}
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!canCheck}
+            className="modern-button modern-button-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check size={16} />
+            {t.lessons.check}
+          </button>
+        )}
+        <button type="button" onClick={onExit} className="modern-button modern-button-secondary flex items-center gap-2">
+          <LogOut size={16} />
+          {t.lessons.exit}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function LessonPanel({ lesson, onStart, onExit, histories, isFinished }: LessonPanelProps) {
+  const { locale, t } = useI18n();
+  const [catalog, setCatalog] = useState<LessonCatalog | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [pickedId, setPickedId] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLessons()
+      .then(result => {
+        if (cancelled) return;
+        setCatalog(result);
+        setPickedId(result.lessons[0]?.id ?? '');
+      })
+      .catch(() => !cancelled && setLoadFailed(true));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const picked = catalog?.lessons.find(candidate => candidate.id === pickedId);
+
+  const renderPicker = () => {
+    if (loadFailed) return <p className="text-sm text-[#F87171]">{t.lessons.loadFailed}</p>;
+    if (!catalog) return <p className="text-sm text-[var(--light-gray)]">{t.lessons.loading}</p>;
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-[var(--light-gray)]">{t.lessons.intro}</p>
+        {catalog.failed.length > 0 && (
+          <p className="text-sm text-[#FBBF24]">{t.lessons.someFailed(catalog.failed.join(', '))}</p>
+        )}
+        {catalog.lessons.length === 0 ? (
+          <p className="text-sm text-[var(--light-gray)]">{t.lessons.noLessons}</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={pickedId}
+              onChange={(e) => setPickedId(e.target.value)}
+              aria-label={t.lessons.lesson}
+              className="modern-select flex-1"
+            >
+              {catalog.lessons.map(candidate => (
+                <option key={candidate.id} value={candidate.id} className="bg-[var(--deep-space-blue)]">
+                  {localize(candidate.title, locale)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => picked && onStart(picked)}
+              disabled={!picked}
+              className="modern-button modern-button-primary flex items-center gap-2"
+            >
+              <GraduationCap size={16} />
+              {t.lessons.start}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="glass-card">
+      <h2 className="text-xl font-semibold text-[var(--neon-cyan)] mb-4 flex items-center gap-2">
+        <GraduationCap size={20} />
+        {t.lessons.title}
+      </h2>
+
+      {lesson ? (
+        <Worksheet key={lesson.id} lesson={lesson} histories={histories} isFinished={isFinished} onExit={onExit} />
+      ) : (
+        renderPicker()
+      )}
+    </div>
+  );
+}
+
+export default LessonPanel;
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { MeasuredData, MeasurementError, MeasurementErrorCode, parseMeasurements } from '../measurements';
+import { useI18n } from '../hooks/use-i18n';
+
+interface MeasurementPanelProps {
+  measurement: MeasuredData | null;
+  // Series compared with the selected object
+  seriesIndex: number;
+  onSeriesChange: (index: number) => void;
+  alignStart: boolean;
+  onAlignStartChange: (align: boolean) => void;
+  onLoad: (measurement: MeasuredData) => void;
+  onClear: () => void;
+}
+
+function MeasurementPanel({
+  measurement,
+  seriesIndex,
+  onSeriesChange,
+  alignStart,
+  onAlignStartChange,
+  onLoad,
+  onClear
+}: MeasurementPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Kept as a code so the message follows language changes
+  const [error, setError] = useState<MeasurementErrorCode | 'unreadable' | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so the same file can be picked again after editing it
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoad(parseMeasurements(await file.text(), file.name));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof MeasurementError ? err.code : 'unreadable');
+    }
+  };
+
+  const series = measurement?.series[seriesIndex];
+
+  return (
+    <div className="glass-card">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-[var(--neon-cyan)]">
+          {t.measurement.title}
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="modern-button modern-button-secondary flex items-center gap-2"
+          >
+            <Upload size={16} />
+            {t.measurement.import}
+          </button>
+          {measurement && (
+            <button
+              onClick={onClear}
+              className="modern-button modern-button-secondary flex items-center gap-2"
+              title={t.measurement.clear}
+            >
+              <X size={16} />
+            </button>
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.txt,.json,text/csv,application/json"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {error && <p className="text-sm text-[#F87171] mb-4">{t.measurement.errors[error]}</p>}
+      {measurement?.skipped > 0 && (
+        <p className="text-sm text-[#FBBF24] mb-4">{t.measurement.skipped(measurement.skipped)}</p>
+      )}
+
+      {measurement ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="info-card">
+            <div className="info-card-label">{t.measurement.file}</div>
+            <div className="info-card-value text-base break-all">{measurement.fileName}</div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+              {t.measurement.series}
+            </label>
+            <select
+              value={seriesIndex}
+              onChange={(e) => onSeriesChange(parseInt(e.target.value, 10))}
+              className="modern-select w-full"
+            >
+              {measurement.series.map((entry, index) => (
+                <option key={index} value={index}>
+                  {t.measurement.seriesOption(entry.name, entry.points.length)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-[var(--light-gray)]">
+            <input
+              type="checkbox"
+              checked={alignStart}
+              onChange={(e) => onAlignStartChange(e.target.checked)}
+              className="accent-[var(--neon-cyan)]"
+            />
+            {t.measurement.alignStart}
+            {series && series.points[0].time !== 0 && ` (${formatNumber(series.points[0].time)} s)`}
+          </label>
+        </div>
+      ) : (
+        <p className="text-sm text-[var(--light-gray)]">
+          {t.measurement.intro}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default MeasurementPanel;
@@ -0,0 +1,65 @@
+import React, { useId } from 'react';
+import { PARAMETER_FIELDS, ParameterKey, fieldSymbol, toField } from '../parameters';
+import { ParameterForm } from '../hooks/use-parameter-form';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+
+interface ParameterInputProps {
+  form: ParameterForm;
+  name: ParameterKey;
+  label: string;
+  step?: string;
+  disabled?: boolean;
+}
+
+// A numeric field of the parameter form with its error or warning below it
+function ParameterInput({ form, name, label, step = 'any', disabled = false }: ParameterInputProps) {
+  const { t, formatNumber } = useI18n();
+  const units = useUnits();
+  const id = useId();
+
+  // Bounds are shown in the unit the field is typed in
+  const format = (value: number) => `${formatNumber(toField(name, value, units), 0, 4)} ${fieldSymbol(name, units)}`.trim();
+
+  const error = form.errorOf(name);
+  const warning = form.warnings[name];
+  const { min, max } = PARAMETER_FIELDS[name];
+
+  let message: string | null = null;
+  if (error === 'min') {
+    message = t.parameters.errors.min(format(min));
+  } else if (error === 'max') {
+    message = t.parameters.errors.max(format(max));
+  } else if (error) {
+    message = t.parameters.errors[error];
+  } else if (warning?.kind === 'kineticAboveStatic') {
+    message = t.parameters.warnings.kineticAboveStatic;
+  } else if (warning) {
+    message = t.parameters.warnings[warning.kind](format(warning.limit));
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-[var(--light-gray)] mb-2">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        step={step}
+        {...form.register(name)}
+        className={`modern-input w-full ${error ? 'border-[#F87171]' : ''}`}
+        disabled={disabled}
+        aria-invalid={Boolean(error)}
+        aria-describedby={message ? `${id}-message` : undefined}
+      />
+      {message && (
+        <p id={`${id}-message`} className={`text-xs mt-1 ${error ? 'text-[#F87171]' : 'text-[#FBBF24]'}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ParameterInput;
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SimulationData, sampleIndexAt } from '../physics/engine';
+import { MeasuredSeries } from '../measurements';
+import { useI18n } from '../hooks/use-i18n';
+import { useUnits } from '../hooks/use-units';
+
+export interface ChartRun {
+  // Saved runs laid over the current one use string ids
+  id: number | string;
+  name: string;
+  color: string;
+  data: SimulationData[];
+  // Dash pattern for overlaid runs
+  dash?: string;
+  // The same object under constant g, for runs on height-dependent gravity
+  reference?: SimulationData[];
+}
+
+interface SimulationChartsProps {
+  runs: ChartRun[];
+  // The energy chart breaks down a single object
+  selectedId: number;
+  // Time under the cursor, shared with the table and canvas
+  hoverTime: number | null;
+  onHover: (time: number | null) => void;
+  // Imported measurements, drawn as points over the height curves
+  measured?: MeasuredSeries | null;
+}
+
+type ChartRow = { time: number } & Record<string, number>;
+
+interface Series {
+  key: string;
+  name: string;
+  color: string;
+  // Points without a connecting line, for measurements
+  dotsOnly?: boolean;
+  dash?: string;
+}
+
+interface TimeChartProps {
+  title: string;
+  unit: string;
+  rows: ChartRow[];
+  series: Series[];
+  hoverTime: number | null;
+  onHover: (time: number | null) => void;
+}
+
+type Metric = 'height' | 'velocity' | 'acceleration';
+
+const MEASURED_KEY = 'measured';
+const MEASURED_COLOR = '#FFFFFF';
+
+const ENERGY_SERIES: { field: keyof SimulationData; label: 'kinetic' | 'potential' | 'total'; color: string }[] = [
+  { field: 'kineticEnergy', label: 'kinetic', color: '#F87171' },
+  { field: 'potentialEnergy', label: 'potential', color: '#60A5FA' },
+  { field: 'totalEnergy', label: 'total', color: '#E600FF' }
+];
+
+// Charts redraw on every frame, so long runs are thinned out for display
+const MAX_POINTS = 600;
+
+function thin(data: SimulationData[]): SimulationData[] {
+  const stride = Math.max(1, Math.ceil(data.length / MAX_POINTS));
+  // Impacts are kept so bounces stay sharp after thinning
+  return data.filter((row, index) => index % stride === 0 || index === data.length - 1 || row.impact);
+}
+
+// Objects are sampled on shared boundaries, so rows merge on time; impact
+// rows exist for one object only and the other lines bridge them
+function mergeByTime(
+  runs: ChartRun[],
+  fields: (row: SimulationData, run: ChartRun) => Record<string, number>
+): ChartRow[] {
+  const rows = new Map<number, ChartRow>();
+
+  runs.forEach(run => {
+    thin(run.data).forEach(sample => {
+      const row = rows.get(sample.time) ?? ({ time: sample.time } as ChartRow);
+      Object.entries(fields(sample, run)).forEach(([key, value]) => {
+        row[`${key}_${run.id}`] = value;
+      });
+      rows.set(sample.time, row);
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.time - b.time);
+}
+
+function TimeChart({ title, unit, rows, series, hoverTime, onHover }: TimeChartProps) {
+  const { formatNumber } = useI18n();
+  
+  return (
+    <div className="info-card">
+      <div className="info-card-label mb-2">{title}</div>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={rows}
+            syncId="simulation"
+            margin={{ top: 8, right: 12, bottom: 0, left: 0 }}
+            onMouseMove={(state) => onHover(typeof state?.activeLabel === 'number' ? state.activeLabel : null)}
+            onMouseLeave={() => onHover(null)}
+          >
+            <CartesianGrid stroke="rgba(0, 245, 255, 0.1)" />
+            <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="var(--light-gray)" unit=" s" />
+            <YAxis stroke="var(--light-gray)" width={56} tickFormatter={(value: number) => formatNumber(value, 1)} />
+            <Tooltip
+              contentStyle={{ background: 'var(--deep-space-blue)', border: '1px solid var(--card-border)' }}
+              formatter={(value: number) => `${formatNumber(value)} ${unit}`}
+              labelFormatter={(label: number) => `t = ${formatNumber(label)} s`}
+            />
+            {series.length > 1 && <Legend />}
+            {hoverTime !== null && (
+              <ReferenceLine x={hoverTime} stroke="var(--energetic-magenta)" strokeDasharray="4 4" />
+            )}
+            {series.map(({ key, name, color, dotsOnly, dash }) => (
+              <Line
+                key={key}
+                dataKey={key}
+                name={name}
+                stroke={dotsOnly ? 'none' : color}
+                strokeDasharray={dash}
+                dot={dotsOnly ? { r: 2.5, fill: color, stroke: 'none' } : false}
+                legendType={dotsOnly ? 'circle' : 'line'}
+                connectNulls={!dotsOnly}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function SimulationCharts({ runs, selectedId, hoverTime, onHover, measured = null }: SimulationChartsProps) {
+  const { t } = useI18n();
+  const { symbol, toDisplay } = useUnits();
+  const [showEnergy, setShowEnergy] = useState(false);
+
+  const rows = useMemo(() => mergeByTime(runs, sample => ({
+    height: toDisplay('length', sample.height),
+    velocity: toDisplay('speed', sample.velocity),
+    acceleration: toDisplay('acceleration', sample.acceleration)
+  })), [runs, toDisplay]);
+
+  // Measured times rarely match the samples, so they get rows of their own
+  const heightRows = useMemo(() => {
+    if (!measured) return rows;
+
+    const merged = new Map(rows.map(row => [row.time, { ...row }]));
+    measured.points.forEach(({ time, height }) => {
+      const row = merged.get(time) ?? ({ time } as ChartRow);
+      row[MEASURED_KEY] = toDisplay('length', height);
+      merged.set(time, row);
+    });
+    return Array.from(merged.values()).sort((a, b) => a.time - b.time);
+  }, [rows, measured, toDisplay]);
+
+  // Once the reference has landed its last sample, on the ground, stands in
+  const referenceRuns = useMemo(() => runs.filter(run => run.reference), [runs]);
+  const differenceRows = useMemo(() => mergeByTime(referenceRuns, (sample, run) => {
+    const reference = run.reference[sampleIndexAt(run.reference, sample.time)];
+    return reference ? { gravityDifference: toDisplay('length', sample.height - reference.height) } : {};
+  }), [referenceRuns, toDisplay]);
+
+  const selectedRun = runs.find(run => run.id === selectedId) ?? runs[0];
+
+  const energyRows = useMemo(() => {
+    if (!showEnergy || !selectedRun) return [];
+    return mergeByTime([selectedRun], sample => ({
+      kineticEnergy: sample.kineticEnergy,
+      potentialEnergy: sample.potentialEnergy,
+      totalEnergy: sample.totalEnergy,
+      dissipated: sample.dragLoss + sample.impactLoss
+    }));
+  }, [showEnergy, selectedRun]);
+
+  const seriesFor = (metric: Metric): Series[] => runs.map(run => ({
+    key: `${metric}_${run.id}`,
+    name: run.name,
+    color: run.color,
+    dash: run.dash
+  }));
+
+  const hasData = runs.some(run => run.data.length > 0) || Boolean(measured);
+
+  return (
+    <div className="glass-card">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-[var(--neon-cyan)]">
+          {t.charts.title}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-[var(--light-gray)]">
+          <input
+            type="checkbox"
+            checked={showEnergy}
+            onChange={(e) => setShowEnergy(e.target.checked)}
+            className="accent-[var(--neon-cyan)]"
+          />
+          {t.charts.showEnergy}
+        </label>
+      </div>
+
+      {!hasData ? (
+        <p className="text-center py-8 text-[var(--light-gray)]">
+          {t.common.noData}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <TimeChart
+            title={t.charts.height}
+            unit={symbol('length')}
+            rows={heightRows}
+            series={measured
+              ? [...seriesFor('height'), { key: MEASURED_KEY, name: measured.name, color: MEASURED_COLOR, dotsOnly: true }]
+              : seriesFor('height')}
+            hoverTime={hoverTime}
+            onHover={onHover}
+          />
+          <TimeChart
+            title={t.charts.velocity}
+            unit={symbol('speed')}
+            rows={rows}
+            series={seriesFor('velocity')}
+            hoverTime={hoverTime}
+            onHover={onHover}
+          />
+          <TimeChart
+            title={t.charts.acceleration}
+            unit={symbol('acceleration')}
+            rows={rows}
+            series={seriesFor('acceleration')}
+            hoverTime={hoverTime}
+            onHover={onHover}
+          />
+          {referenceRuns.length > 0 && (
+            <TimeChart
+              title={t.charts.gravityDifference}
+              unit={symbol('length')}
+              rows={differenceRows}
+              series={referenceRuns.map(run => ({ key: `gravityDifference_${run.id}`, name: run.name, color: run.color }))}
+              hoverTime={hoverTime}
+              onHover={onHover}
+            />
+          )}
+          {showEnergy && selectedRun && (
+            <TimeChart
+              title={t.charts.energy(selectedRun.name)}
+              unit="J"
+              rows={energyRows}
+              series={[
+                ...ENERGY_SERIES.map(({ field, label, color }) => ({ key: `${field}_${selectedRun.id}`, name: t.energy[label], color })),
+                { key: `dissipated_${selectedRun.id}`, name: t.energy.dissipated, color: '#FBBF24' }
+              ]}
+              hoverTime={hoverTime}
+              onHover={onHover}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SimulationCharts;
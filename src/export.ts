@@ -0,0 +1,272 @@
+/**
+ * File exports for lab reports: delimited text for spreadsheets, JSON with
+ * the full run parameters, and PNG/SVG snapshots of the canvas and charts.
+ */
+
+import { SimulationData, SimulationParams } from './physics/engine';
+import { IntegratorKind } from './physics/integrators';
+import { MotionMode, SimObject } from './objects';
+import { LOCALES, Locale, Messages } from './i18n';
+import { UnitConverter, UnitQuantity } from './units';
+
+export type CsvSeparator = ';' | ',';
+export type DecimalMark = ',' | '.';
+
+export interface CsvOptions {
+  separator: CsvSeparator;
+  decimal: DecimalMark;
+  // Language of the header row
+  language: Locale;
+}
+
+// Turkish Excel expects `;` and decimal commas, most other tools `,` and dots,
+// so the defaults follow the UI language
+export function defaultCsvOptions(locale: Locale): CsvOptions {
+  return { ...LOCALES[locale].csv, language: locale };
+}
+
+export interface ExportRun {
+  object: SimObject;
+  // In the UI language, as user bodies are not in the locale files
+  bodyName: string;
+  params: SimulationParams;
+  data: SimulationData[];
+}
+
+export interface ExportSettings {
+  mode: MotionMode;
+  integrator: IntegratorKind;
+  timeStep: number;
+  sampleInterval: number;
+}
+
+interface CsvColumn {
+  header: (messages: Messages, units: UnitConverter) => string;
+  value: (row: SimulationData) => number | null;
+  // Converted to the display unit; columns without one stay in SI
+  quantity?: UnitQuantity;
+}
+
+const CSV_COLUMNS: CsvColumn[] = [
+  { header: m => m.table.columns.time, value: row => row.time },
+  { header: (m, u) => m.table.columns.height(u.symbol('length')), value: row => row.height, quantity: 'length' },
+  { header: (m, u) => m.table.columns.velocity(u.symbol('speed')), value: row => row.velocity, quantity: 'speed' },
+  { header: (m, u) => m.table.columns.acceleration(u.symbol('acceleration')), value: row => row.acceleration, quantity: 'acceleration' },
+  { header: (m, u) => m.table.columns.displacement(u.symbol('length')), value: row => row.displacement, quantity: 'length' },
+  { header: (m, u) => m.table.columns.x(u.symbol('length')), value: row => row.x, quantity: 'length' },
+  {
+    header: (m, u) => m.table.columns.horizontalVelocity(u.symbol('speed')),
+    value: row => row.horizontalVelocity,
+    quantity: 'speed'
+  },
+  { header: (m, u) => m.table.columns.mass(u.symbol('mass')), value: row => row.mass, quantity: 'mass' },
+  { header: m => m.table.columns.kineticEnergy, value: row => row.kineticEnergy },
+  { header: m => m.table.columns.potentialEnergy, value: row => row.potentialEnergy },
+  { header: m => m.table.columns.totalEnergy, value: row => row.totalEnergy },
+  { header: m => m.table.columns.dragLoss, value: row => row.dragLoss },
+  { header: m => m.table.columns.impactLoss, value: row => row.impactLoss },
+  {
+    header: (m, u) => m.export.impactColumns.preVelocity(u.symbol('speed')),
+    value: row => row.impact?.preVelocity ?? null,
+    quantity: 'speed'
+  },
+  {
+    header: (m, u) => m.export.impactColumns.postVelocity(u.symbol('speed')),
+    value: row => row.impact?.postVelocity ?? null,
+    quantity: 'speed'
+  },
+  { header: m => m.export.impactColumns.energyLoss, value: row => row.impact?.energyLoss ?? null }
+];
+
+// Quotes a cell that would otherwise break the row apart
+function csvCell(text: string, separator: CsvSeparator): string {
+  if (!text.includes(separator) && !/["\r\n]/.test(text)) return text;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * One row per sample of every object, in the display units named in the
+ * header. The byte order mark lets Excel pick up UTF-8, so Turkish characters
+ * survive.
+ */
+export function toCSV(runs: ExportRun[], { separator, decimal, language }: CsvOptions, units: UnitConverter): string {
+  const messages = LOCALES[language].messages;
+  const formatNumber = (value: number | null) => (value === null ? '' : value.toString().replace('.', decimal));
+  const cell = ({ value, quantity }: CsvColumn, row: SimulationData) => {
+    const si = value(row);
+    return formatNumber(si === null || !quantity ? si : units.toDisplay(quantity, si));
+  };
+  const line = (cells: string[]) => cells.map(cell => csvCell(cell, separator)).join(separator);
+
+  const header = line([messages.export.objectHeader, ...CSV_COLUMNS.map(column => column.header(messages, units))]);
+  const rows = runs.flatMap(({ object, data }) => data.map(row => line([
+    object.name,
+    ...CSV_COLUMNS.map(column => cell(column, row))
+  ])));
+
+  return '\uFEFF' + [header, ...rows].join('\r\n');
+}
+
+// Everything needed to reproduce or re-plot a run; numbers stay plain JSON
+// and in SI whatever the display units, like the engine
+export function toJSON(runs: ExportRun[], settings: ExportSettings): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    settings,
+    objects: runs.map(({ object, bodyName, params, data }) => ({
+      name: object.name,
+      planet: object.planet,
+      planetName: bodyName,
+      gravity: params.gravity,
+      gravityModel: params.gravityModel,
+      bodyRadius: params.bodyRadius,
+      mass: params.mass,
+      initialHeight: params.initialHeight,
+      initialVelocity: params.initialVelocity,
+      initialX: params.initialX,
+      initialHorizontalVelocity: params.initialHorizontalVelocity,
+      launchSpeed: settings.mode === 'projectile' ? object.launchSpeed : null,
+      launchAngle: settings.mode === 'projectile' ? object.launchAngle : null,
+      restitution: params.restitution,
+      drag: params.drag,
+      incline: params.incline,
+      data
+    }))
+  }, null, 2);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export interface SvgImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Inline styles point at theme variables, which mean nothing outside the page
+function resolveCssVariables(markup: string): string {
+  const styles = getComputedStyle(document.documentElement);
+  return markup.replace(/var\((--[\w-]+)\)/g, (match, name: string) => styles.getPropertyValue(name).trim() || match);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// The canvas is a bitmap, so its SVG simply wraps a PNG of it
+export function canvasToSVG(canvas: HTMLCanvasElement): SvgImage {
+  const { width, height } = canvas;
+  return {
+    markup: `<svg xmlns="${SVG_NS}" width="${width}" height="${height}">` +
+      `<image href="${canvas.toDataURL('image/png')}" width="${width}" height="${height}"/></svg>`,
+    width,
+    height
+  };
+}
+
+const CHART_TITLE_HEIGHT = 28;
+const CHART_LEGEND_HEIGHT = 22;
+const CHART_GAP = 16;
+
+/**
+ * Stacks every chart inside `container` into a single SVG. Titles and legends
+ * are HTML around the chart surfaces, so they are redrawn as SVG text.
+ * Returns null when there are no charts to export.
+ */
+export function chartsToSVG(container: HTMLElement, background = '#0D1117'): SvgImage | null {
+  const surfaces = Array.from(container.querySelectorAll<SVGSVGElement>('svg.recharts-surface'))
+    .filter(surface => !surface.closest('.recharts-legend-wrapper'));
+  if (surfaces.length === 0) return null;
+
+  const serializer = new XMLSerializer();
+  const parts: string[] = [];
+  let width = 0;
+  let y = CHART_GAP;
+
+  surfaces.forEach(surface => {
+    const card = surface.closest('.info-card');
+    const title = card?.querySelector('.info-card-label')?.textContent ?? '';
+    const legend = Array.from(card?.querySelectorAll('.recharts-legend-item') ?? []).map(item => ({
+      text: item.querySelector('.recharts-legend-item-text')?.textContent ?? '',
+      color: item.querySelector('path')?.getAttribute('stroke') ?? item.querySelector('path')?.getAttribute('fill') ?? '#fff'
+    }));
+    const surfaceWidth = surface.width.baseVal.value;
+    const surfaceHeight = surface.height.baseVal.value;
+
+    parts.push(`<text x="${CHART_GAP}" y="${y + 18}" fill="var(--light-gray)" font-size="14" font-family="sans-serif">${escapeXml(title)}</text>`);
+    y += CHART_TITLE_HEIGHT;
+
+    const chart = serializer.serializeToString(surface).replace('<svg', `<svg x="${CHART_GAP}" y="${y}"`);
+    parts.push(chart);
+    y += surfaceHeight;
+
+    if (legend.length > 0) {
+      let x = CHART_GAP;
+      legend.forEach(entry => {
+        parts.push(`<rect x="${x}" y="${y + 6}" width="10" height="10" fill="${entry.color}"/>`);
+        parts.push(`<text x="${x + 14}" y="${y + 15}" fill="${entry.color}" font-size="12" font-family="sans-serif">${escapeXml(entry.text)}</text>`);
+        x += 24 + entry.text.length * 7;
+      });
+      y += CHART_LEGEND_HEIGHT;
+    }
+
+    y += CHART_GAP;
+    width = Math.max(width, surfaceWidth + 2 * CHART_GAP);
+  });
+
+  const markup = `<svg xmlns="${SVG_NS}" width="${width}" height="${y}">` +
+    `<rect width="100%" height="100%" fill="${background}"/>${parts.join('')}</svg>`;
+
+  return { markup: resolveCssVariables(markup), width, height: y };
+}
+
+// Image failures carry a code so the message can be shown in the UI language
+export type ImageExportErrorCode = 'renderFailed' | 'svgLoadFailed';
+
+export class ImageExportError extends Error {
+  constructor(public code: ImageExportErrorCode) {
+    super(code);
+    this.name = 'ImageExportError';
+  }
+}
+
+// Rasterizes an SVG at `scale` times its size, for sharper printed reports
+export function svgToPNG({ markup, width, height }: SvgImage, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new ImageExportError('renderFailed'));
+        return;
+      }
+
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new ImageExportError('renderFailed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new ImageExportError('svgLoadFailed'));
+    };
+
+    image.src = url;
+  });
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+
+// Longest frame gap passed on (s); longer gaps such as a hidden tab are
+// treated as a pause instead of a jump
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Calls `onFrame` on every animation frame while `isActive` is true, with the
+ * wall-clock seconds elapsed since the previous frame.
+ */
+export function useAnimationFrame(onFrame: (elapsed: number) => void, isActive: boolean) {
+  const callbackRef = useRef(onFrame);
+
+  useEffect(() => {
+    callbackRef.current = onFrame;
+  }, [onFrame]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    let frameId = 0;
+    let lastTimestamp: number | null = null;
+
+    const loop = (timestamp: number) => {
+      if (lastTimestamp !== null) {
+        callbackRef.current(Math.min((timestamp - lastTimestamp) / 1000, MAX_FRAME_TIME));
+      }
+      lastTimestamp = timestamp;
+      frameId = requestAnimationFrame(loop);
+    };
+
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [isActive]);
+}
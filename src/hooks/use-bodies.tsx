@@ -0,0 +1,42 @@
+import { useCallback, useMemo, useState } from 'react';
+import { BUILT_IN_BODIES, CelestialBody, loadUserBodies, saveUserBodies } from '../bodies';
+import { useI18n } from './use-i18n';
+
+/**
+ * The body catalogue: built-in bodies followed by the user's own, which are
+ * saved on every change.
+ */
+export function useBodies() {
+  const { t } = useI18n();
+  const [userBodies, setUserBodies] = useState<CelestialBody[]>(loadUserBodies);
+
+  const update = useCallback((change: (prev: CelestialBody[]) => CelestialBody[]) => {
+    setUserBodies(prev => {
+      const next = change(prev);
+      saveUserBodies(next);
+      return next;
+    });
+  }, []);
+
+  // Adds a body or replaces the one with the same id
+  const saveBody = useCallback((body: CelestialBody) => {
+    update(prev => prev.some(entry => entry.id === body.id)
+      ? prev.map(entry => entry.id === body.id ? body : entry)
+      : [...prev, body]);
+  }, [update]);
+
+  const removeBody = useCallback((id: string) => {
+    update(prev => prev.filter(entry => entry.id !== id));
+  }, [update]);
+
+  const bodies = useMemo(() => [...BUILT_IN_BODIES, ...userBodies], [userBodies]);
+
+  // Ids from links made elsewhere may be unknown here; those read as custom
+  const bodyName = useCallback((id: string) => {
+    const body = bodies.find(entry => entry.id === id);
+    if (body?.name) return body.name;
+    return body && body.kind !== 'user' ? t.bodies[body.id as keyof typeof t.bodies] : t.bodies.custom;
+  }, [bodies, t]);
+
+  return { bodies, saveBody, removeBody, bodyName };
+}
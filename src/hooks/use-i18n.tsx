@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  Locale,
+  Messages,
+  NumberFormatter,
+  ScientificFormatter,
+  createNumberFormatter,
+  createScientificFormatter
+} from '../i18n';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+  formatNumber: NumberFormatter;
+  formatScientific: ScientificFormatter;
+}
+
+// The default serves anything rendered outside the provider
+export const I18nContext = createContext<I18n>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: LOCALES[DEFAULT_LOCALE].messages,
+  formatNumber: createNumberFormatter(DEFAULT_LOCALE),
+  formatScientific: createScientificFormatter(DEFAULT_LOCALE)
+});
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SimulationParams, SimulationState } from '../physics/engine';
+import {
+  SavedRun,
+  SavedScenario,
+  createId,
+  deleteRun,
+  deleteScenario,
+  listRuns,
+  listScenarios,
+  putRun,
+  putScenario,
+  toSavedRunObject
+} from '../storage';
+
+/**
+ * Saved scenarios and the run history, mirrored from IndexedDB. Every change
+ * is written first and then read back, so the lists always show what is
+ * actually stored.
+ */
+export function useLibrary() {
+  const [scenarios, setScenarios] = useState<SavedScenario[]>([]);
+  const [runs, setRuns] = useState<SavedRun[]>([]);
+  // Storage can be unavailable, e.g. in private windows
+  const [failed, setFailed] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextScenarios, nextRuns] = await Promise.all([listScenarios(), listRuns()]);
+      setScenarios(nextScenarios);
+      setRuns(nextRuns);
+    } catch {
+      setFailed(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const update = useCallback(async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+      setFailed(false);
+    } catch {
+      setFailed(true);
+    }
+    await refresh();
+  }, [refresh]);
+
+  const saveScenario = useCallback((name: string, query: string) => update(
+    () => putScenario({ id: createId(), name, savedAt: Date.now(), query })
+  ), [update]);
+
+  const renameScenario = useCallback((scenario: SavedScenario, name: string) => update(
+    () => putScenario({ ...scenario, name })
+  ), [update]);
+
+  const removeScenario = useCallback((id: string) => update(() => deleteScenario(id)), [update]);
+
+  // Recorded states per object, in the order of the objects in the query
+  const saveRun = useCallback((query: string, objects: { params: SimulationParams; states: SimulationState[] }[]) => update(
+    () => putRun({
+      id: createId(),
+      name: null,
+      savedAt: Date.now(),
+      query,
+      objects: objects.map(({ params, states }) => toSavedRunObject(params, states))
+    })
+  ), [update]);
+
+  const renameRun = useCallback((run: SavedRun, name: string) => update(
+    () => putRun({ ...run, name: name || null })
+  ), [update]);
+
+  const removeRun = useCallback((id: string) => update(() => deleteRun(id)), [update]);
+
+  return {
+    scenarios,
+    runs,
+    failed,
+    saveScenario,
+    renameScenario,
+    removeScenario,
+    saveRun,
+    renameRun,
+    removeRun
+  };
+}
+
+export type Library = ReturnType<typeof useLibrary>;
@@ -0,0 +1,80 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { UseFormRegisterReturn, useForm } from 'react-hook-form';
+import {
+  PARAMETER_KEYS,
+  ParameterError,
+  ParameterKey,
+  ParameterValues,
+  ParameterWarning,
+  parameterSchema,
+  parameterWarnings,
+  toField
+} from '../parameters';
+import { useUnits } from './use-units';
+
+// Inputs are kept as typed, in the display units
+type ParameterDrafts = Record<ParameterKey, string>;
+
+export interface ParameterForm {
+  register: (key: ParameterKey) => UseFormRegisterReturn<ParameterKey>;
+  errorOf: (key: ParameterKey) => ParameterError | undefined;
+  warnings: Partial<Record<ParameterKey, ParameterWarning>>;
+}
+
+/**
+ * The numeric control panel fields, each validated with its zod schema as it
+ * is typed. A valid value is passed on right away; an invalid one stays in
+ * its input with an error while the simulation keeps the last valid value.
+ * The drafts are refilled when the values change from outside, e.g. another
+ * object is selected or a preset applied, and when the display units change.
+ */
+export function useParameterForm(
+  values: ParameterValues,
+  onChange: (key: ParameterKey, value: number) => void
+): ParameterForm {
+  const units = useUnits();
+
+  const toDrafts = useCallback((next: ParameterValues) => Object.fromEntries(
+    PARAMETER_KEYS.map(key => [key, String(toField(key, next[key], units))])
+  ) as ParameterDrafts, [units]);
+
+  const schemas = useMemo(() => Object.fromEntries(
+    PARAMETER_KEYS.map(key => [key, parameterSchema(key, units)])
+  ) as Record<ParameterKey, ReturnType<typeof parameterSchema>>, [units]);
+
+  const { register, reset, formState: { errors } } = useForm<ParameterDrafts>({
+    mode: 'onChange',
+    defaultValues: toDrafts(values)
+  });
+
+  // Values this form passed on itself must not overwrite what is being typed
+  const synced = useRef({ values, toDrafts });
+  useEffect(() => {
+    const previous = synced.current;
+    const isOwnChange = previous.toDrafts === toDrafts && PARAMETER_KEYS.every(key => previous.values[key] === values[key]);
+    synced.current = { values, toDrafts };
+    if (!isOwnChange) reset(toDrafts(values));
+  }, [values, toDrafts, reset]);
+
+  const registerField = (key: ParameterKey) => register(key, {
+    validate: text => {
+      const result = schemas[key].safeParse(text);
+      return result.success || result.error.issues[0].message;
+    },
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+      const result = schemas[key].safeParse(e.target.value);
+      if (!result.success) return;
+
+      synced.current = { ...synced.current, values: { ...synced.current.values, [key]: result.data } };
+      onChange(key, result.data);
+    }
+  });
+
+  const warnings = useMemo(() => parameterWarnings(values), [values]);
+
+  return {
+    register: registerField,
+    errorOf: key => errors[key]?.message as ParameterError | undefined,
+    warnings
+  };
+}
@@ -0,0 +1,339 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createEngine,
+  createState,
+  nextSampleTime,
+  sampleIndexAt,
+  toSimulationData,
+  SimulationData,
+  SimulationEngine,
+  SimulationParams,
+  SimulationState
+} from '../physics/engine';
+import { useAnimationFrame } from './use-animation-frame';
+
+export interface RunObject {
+  id: number;
+  params: SimulationParams;
+}
+
+interface RunOptions {
+  playbackSpeed: number;
+  // Simulated seconds between recorded rows
+  sampleInterval: number;
+  // Called the first time every object of a run has landed, with the raw
+  // states of the run; landing again after scrubbing back does not call it
+  onFinish?: (states: Record<number, SimulationState[]>) => void;
+}
+
+// Frames of motion kept per object for the canvas trail
+const TRAIL_LENGTH = 30;
+
+/**
+ * Runs one engine per object on a shared clock. All objects are sampled on
+ * the same time boundaries, so their histories line up for tables, charts and
+ * scrubbing. The playhead is a time rather than a row index because bounces
+ * add extra rows to only some of the objects.
+ */
+export function useSimulationRuns(objects: RunObject[], { playbackSpeed, sampleInterval, onFinish }: RunOptions) {
+  const enginesRef = useRef(new Map<number, SimulationEngine>());
+  const unsubscribesRef = useRef<(() => void)[]>([]);
+
+  // Raw engine states parallel to each history, so any recorded instant can be
+  // restored exactly when scrubbing or resuming
+  const stateHistoriesRef = useRef(new Map<number, SimulationState[]>());
+  const sceneTimeRef = useRef(0);
+  // Whether onFinish was called for the current run; loaded runs count as
+  // reported, since they were recorded before
+  const reportedRef = useRef(false);
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [liveStates, setLiveStates] = useState<Record<number, SimulationState>>({});
+  const [histories, setHistories] = useState<Record<number, SimulationData[]>>({});
+  const [trails, setTrails] = useState<Record<number, SimulationState[]>>({});
+  const [playheadTime, setPlayheadTime] = useState(0);
+
+  // Before a run starts each object shows its initial state
+  const states = useMemo(() => {
+    return Object.fromEntries(
+      objects.map(({ id, params }) => [id, liveStates[id] ?? createState(params)])
+    ) as Record<number, SimulationState>;
+  }, [objects, liveStates]);
+
+  const hasRun = Object.keys(histories).length > 0;
+  const allLanded = objects.every(({ id }) => states[id].landed);
+
+  // A run that has not fully reached the ground can be resumed; its
+  // parameters stay locked until it is restarted
+  const isPaused = !isRunning && hasRun && !allLanded;
+
+  // Every distinct recorded time across all objects
+  const timeline = useMemo(() => {
+    const times = new Set<number>();
+    Object.values(histories).forEach(rows => rows.forEach(row => times.add(row.time)));
+    return Array.from(times).sort((a, b) => a - b);
+  }, [histories]);
+
+  const playheadIndex = Math.max(0, sampleIndexAt(timeline, playheadTime));
+
+  const unsubscribeAll = useCallback(() => {
+    unsubscribesRef.current.forEach(unsubscribe => unsubscribe());
+    unsubscribesRef.current = [];
+  }, []);
+
+  // Creates fresh engines for the current parameters and records t = 0
+  const beginRun = useCallback(() => {
+    unsubscribeAll();
+    enginesRef.current = new Map();
+    stateHistoriesRef.current = new Map();
+    sceneTimeRef.current = 0;
+    reportedRef.current = false;
+
+    const initialStates: Record<number, SimulationState> = {};
+    const initialHistories: Record<number, SimulationData[]> = {};
+
+    objects.forEach(({ id, params }) => {
+      const engine = createEngine(params);
+      const initial = engine.getState();
+
+      enginesRef.current.set(id, engine);
+      stateHistoriesRef.current.set(id, [initial]);
+      initialStates[id] = initial;
+      initialHistories[id] = [toSimulationData(initial)];
+
+      // The engines own the physics; components only map their states
+      unsubscribesRef.current.push(engine.subscribe(state => {
+        setLiveStates(prev => ({ ...prev, [id]: state }));
+        setTrails(prev => {
+          const trail = [...(prev[id] ?? []), state];
+          return { ...prev, [id]: trail.slice(-TRAIL_LENGTH) };
+        });
+      }));
+    });
+
+    setLiveStates(initialStates);
+    setHistories(initialHistories);
+    setTrails({});
+    setPlayheadTime(0);
+  }, [objects, unsubscribeAll]);
+
+  const recordSamples = useCallback((id: number, samples: SimulationState[]) => {
+    if (samples.length === 0) return;
+
+    stateHistoriesRef.current.get(id)?.push(...samples);
+    setHistories(prev => ({ ...prev, [id]: [...(prev[id] ?? []), ...samples.map(toSimulationData)] }));
+  }, []);
+
+  // Moves every object to the same scene time, recording samples on the way
+  const advanceScene = useCallback((dt: number) => {
+    const target = sceneTimeRef.current + dt;
+
+    enginesRef.current.forEach((engine, id) => {
+      const state = engine.getState();
+      if (state.landed) return;
+      recordSamples(id, engine.advance(target - state.time, sampleInterval));
+    });
+
+    sceneTimeRef.current = target;
+    setPlayheadTime(target);
+  }, [sampleInterval, recordSamples]);
+
+  const allEnginesLanded = useCallback(() => {
+    return Array.from(enginesRef.current.values()).every(engine => engine.getState().landed);
+  }, []);
+
+  // Continuing from a scrubbed-back point rewrites history from there on
+  const discardFuture = useCallback(() => {
+    const time = sceneTimeRef.current;
+
+    stateHistoriesRef.current.forEach((history, id) => {
+      stateHistoriesRef.current.set(id, history.slice(0, sampleIndexAt(history, time) + 1));
+    });
+    setHistories(prev => Object.fromEntries(
+      Object.entries(prev).map(([id, rows]) => [id, rows.slice(0, sampleIndexAt(rows, time) + 1)])
+    ));
+  }, []);
+
+  const start = useCallback(() => {
+    if (isRunning) return;
+
+    if (isPaused) {
+      discardFuture();
+    } else {
+      beginRun();
+    }
+
+    setIsRunning(true);
+  }, [isRunning, isPaused, discardFuture, beginRun]);
+
+  const pause = useCallback(() => {
+    setIsRunning(false);
+  }, []);
+
+  const finish = useCallback(() => {
+    pause();
+    if (reportedRef.current) return;
+
+    reportedRef.current = true;
+    onFinish?.(Object.fromEntries(stateHistoriesRef.current));
+  }, [pause, onFinish]);
+
+  // Physics time follows wall-clock time scaled by the playback speed; rows are
+  // recorded on exact sample boundaries regardless of the frame rate
+  const handleFrame = useCallback((elapsed: number) => {
+    // A frame can still arrive between finishing and the loop stopping
+    if (allEnginesLanded()) return;
+
+    advanceScene(elapsed * playbackSpeed);
+
+    // Stop once every object has come to rest on the ground
+    if (allEnginesLanded()) {
+      finish();
+    }
+  }, [playbackSpeed, advanceScene, allEnginesLanded, finish]);
+
+  useAnimationFrame(handleFrame, isRunning);
+
+  // Jumps to a recorded time; the engines continue from there on resume
+  const seek = useCallback((index: number) => {
+    const time = timeline[index];
+    if (time === undefined) return;
+
+    const nextTrails: Record<number, SimulationState[]> = {};
+    enginesRef.current.forEach((engine, id) => {
+      const history = stateHistoriesRef.current.get(id) ?? [];
+      const sampleIndex = sampleIndexAt(history, time);
+      if (sampleIndex < 0) return;
+
+      engine.load(history[sampleIndex]);
+      nextTrails[id] = history.slice(Math.max(0, sampleIndex - TRAIL_LENGTH + 1), sampleIndex + 1);
+    });
+
+    sceneTimeRef.current = time;
+    setTrails(nextTrails);
+    setPlayheadTime(time);
+  }, [timeline]);
+
+  const stepForward = useCallback(() => {
+    if (isRunning) return;
+
+    if (playheadIndex < timeline.length - 1) {
+      seek(playheadIndex + 1);
+      return;
+    }
+
+    if (hasRun && allLanded) return;
+
+    if (!isPaused) {
+      beginRun();
+    }
+
+    const time = sceneTimeRef.current;
+    advanceScene(nextSampleTime(time, sampleInterval) - time);
+
+    if (allEnginesLanded()) {
+      finish();
+    }
+  }, [
+    isRunning,
+    playheadIndex,
+    timeline,
+    hasRun,
+    allLanded,
+    isPaused,
+    sampleInterval,
+    seek,
+    beginRun,
+    advanceScene,
+    allEnginesLanded,
+    finish
+  ]);
+
+  const stepBack = useCallback(() => {
+    if (isRunning) return;
+    seek(playheadIndex - 1);
+  }, [isRunning, playheadIndex, seek]);
+
+  const restart = useCallback(() => {
+    pause();
+    unsubscribeAll();
+
+    enginesRef.current = new Map();
+    stateHistoriesRef.current = new Map();
+    sceneTimeRef.current = 0;
+
+    setLiveStates({});
+    setHistories({});
+    setTrails({});
+    setPlayheadTime(0);
+  }, [pause, unsubscribeAll]);
+
+  /**
+   * Shows a recorded run again, with the playhead at its end. `runObjects`
+   * are the objects the states belong to; the caller switches the objects to
+   * them in the same update.
+   */
+  const load = useCallback((runObjects: RunObject[], states: Record<number, SimulationState[]>) => {
+    pause();
+    unsubscribeAll();
+
+    enginesRef.current = new Map();
+    stateHistoriesRef.current = new Map();
+    reportedRef.current = true;
+
+    const lastStates: Record<number, SimulationState> = {};
+    const loadedHistories: Record<number, SimulationData[]> = {};
+    const loadedTrails: Record<number, SimulationState[]> = {};
+    let endTime = 0;
+
+    runObjects.forEach(({ id, params }) => {
+      const history = states[id] ?? [];
+      if (history.length === 0) return;
+
+      const engine = createEngine(params);
+      const last = engine.load(history[history.length - 1]);
+
+      enginesRef.current.set(id, engine);
+      stateHistoriesRef.current.set(id, [...history]);
+      lastStates[id] = last;
+      loadedHistories[id] = history.map(toSimulationData);
+      loadedTrails[id] = history.slice(-TRAIL_LENGTH);
+      endTime = Math.max(endTime, last.time);
+    });
+
+    sceneTimeRef.current = endTime;
+    setLiveStates(lastStates);
+    setHistories(loadedHistories);
+    setTrails(loadedTrails);
+    setPlayheadTime(endTime);
+  }, [pause, unsubscribeAll]);
+
+  // Raw state of an object at a recorded time, e.g. for hover markers
+  const stateAt = useCallback((id: number, time: number) => {
+    const history = stateHistoriesRef.current.get(id) ?? [];
+    const index = sampleIndexAt(history, time);
+    return index >= 0 ? history[index] : undefined;
+  }, []);
+
+  useEffect(() => unsubscribeAll, [unsubscribeAll]);
+
+  return {
+    states,
+    histories,
+    trails,
+    timeline,
+    playheadIndex,
+    isRunning,
+    isPaused,
+    hasRun,
+    allLanded,
+    start,
+    pause,
+    restart,
+    load,
+    seek,
+    stepForward,
+    stepBack,
+    stateAt
+  };
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_UNITS, UnitChoice, UnitConverter, createUnitConverter } from '../units';
+
+export interface Units extends UnitConverter {
+  setUnits: (choice: UnitChoice) => void;
+}
+
+// The default serves anything rendered outside the provider
+export const UnitsContext = createContext<Units>({
+  ...createUnitConverter(DEFAULT_UNITS),
+  setUnits: () => {}
+});
+
+export function useUnits(): Units {
+  return useContext(UnitsContext);
+}
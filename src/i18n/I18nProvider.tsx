@@ -0,0 +1,30 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { I18n, I18nContext } from '../hooks/use-i18n';
+import { LOCALES, Locale, createNumberFormatter, createScientificFormatter, loadLocale, saveLocale } from '.';
+
+function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  }, []);
+
+  // Screen readers and the browser tab follow the chosen language too
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = LOCALES[locale].messages.app.title;
+  }, [locale]);
+
+  const value = useMemo<I18n>(() => ({
+    locale,
+    setLocale,
+    t: LOCALES[locale].messages,
+    formatNumber: createNumberFormatter(locale),
+    formatScientific: createScientificFormatter(locale)
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
@@ -0,0 +1,108 @@
+/**
+ * Locales and number formatting. UI text lives in ./locales, one module per
+ * language; adding a language means adding its module and an entry here.
+ */
+
+import { Messages, tr } from './locales/tr';
+import { en } from './locales/en';
+
+export type { Messages };
+
+export type Locale = 'tr' | 'en';
+
+export interface LocaleInfo {
+  // Shown in the language switcher, in the language itself
+  name: string;
+  // BCP 47 tag for Intl number formatting
+  numberLocale: string;
+  // What spreadsheets in this language expect from a CSV file
+  csv: { separator: ';' | ','; decimal: ',' | '.' };
+  messages: Messages;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  tr: { name: 'Türkçe', numberLocale: 'tr-TR', csv: { separator: ';', decimal: ',' }, messages: tr },
+  en: { name: 'English', numberLocale: 'en-US', csv: { separator: ',', decimal: '.' }, messages: en }
+};
+
+export const DEFAULT_LOCALE: Locale = 'tr';
+
+const STORAGE_KEY = 'freefall.locale';
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
+
+// A saved choice wins; otherwise the browser language if we have it
+export function loadLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be blocked, e.g. in private windows
+  }
+
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2).toLowerCase() : '';
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // The choice then only lasts for this session
+  }
+}
+
+export type NumberFormatter = (value: number, digits?: number, maxDigits?: number) => string;
+
+/**
+ * Fixed-point formatting with the locale's decimal mark, like toFixed();
+ * `maxDigits` allows more decimals when the value needs them. Formatters are
+ * cached since tables call this per cell.
+ */
+export function createNumberFormatter(locale: Locale): NumberFormatter {
+  const formats = new Map<string, Intl.NumberFormat>();
+
+  return (value: number, digits = 2, maxDigits = digits) => {
+    if (!Number.isFinite(value)) return value.toString();
+
+    const key = `${digits}-${maxDigits}`;
+    let format = formats.get(key);
+    if (!format) {
+      format = new Intl.NumberFormat(LOCALES[locale].numberLocale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: maxDigits
+      });
+      formats.set(key, format);
+    }
+    return format.format(value);
+  };
+}
+
+export type ScientificFormatter = (value: number, digits?: number) => string;
+
+// Scientific notation with the locale's decimal mark, like toExponential()
+export function createScientificFormatter(locale: Locale): ScientificFormatter {
+  const formats = new Map<number, Intl.NumberFormat>();
+
+  return (value: number, digits = 2) => {
+    if (!Number.isFinite(value)) return value.toString();
+
+    let format = formats.get(digits);
+    if (!format) {
+      format = new Intl.NumberFormat(LOCALES[locale].numberLocale, {
+        notation: 'scientific',
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+      });
+      formats.set(digits, format);
+    }
+    return format.format(value);
+  };
+}
+
+// Date and time in the locale's own style, e.g. for unnamed saved runs
+export function formatDateTime(timestamp: number, locale: Locale): string {
+  return new Date(timestamp).toLocaleString(LOCALES[locale].numberLocale, { dateStyle: 'short', timeStyle: 'short' });
+}
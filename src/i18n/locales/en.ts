@@ -0,0 +1,433 @@
+import { Messages } from './tr';
+
+export const en: Messages = {
+  app: {
+    title: 'Modern Free Fall Simulation',
+    subtitle: 'Explore the laws of physics with a modern interface',
+    language: 'Language'
+  },
+  units: {
+    title: 'Units',
+    systems: {
+      si: 'SI',
+      imperial: 'Imperial',
+      custom: 'Custom'
+    },
+    customTitle: 'Pick the unit of each quantity separately',
+    quantities: {
+      length: 'Length',
+      speed: 'Speed',
+      acceleration: 'Acceleration',
+      mass: 'Mass'
+    }
+  },
+  common: {
+    close: 'Close',
+    noData: 'No data yet. Run the simulation to collect data.',
+    infinity: '∞'
+  },
+  errorBoundary: {
+    title: 'Something went wrong.'
+  },
+  objects: {
+    defaultName: (id: number) => `Object ${id}`
+  },
+  modes: {
+    vertical: 'Vertical',
+    projectile: 'Projectile',
+    incline: 'Inclined Plane'
+  },
+  incline: {
+    angle: 'Slope Angle (°)',
+    speed: (unit: string) => `Initial Speed Along the Ramp (${unit})`,
+    shape: 'Object',
+    shapes: {
+      block: 'Block (slides)',
+      ball: 'Ball (rolls)'
+    },
+    staticFriction: 'Static Friction Coefficient (μs)',
+    kineticFriction: 'Kinetic Friction Coefficient (μk)',
+    holds: 'Static friction holds the object (tan θ ≤ μs); without an initial speed it does not move.',
+    slips: 'The slope is too steep for the ball to roll (μs < 2/7 · tan θ); it slides down like a block.',
+    distance: 'Distance Along the Ramp',
+    alongSpeed: 'Speed Along the Ramp',
+    alongAcceleration: 'Acceleration Along the Ramp'
+  },
+  gravity: {
+    model: 'Gravity Model',
+    models: {
+      constant: 'Constant g',
+      inverseSquare: 'Height-dependent (1/r²)'
+    },
+    radius: 'Body Radius (km)',
+    threshold: 'Constant g Warning Threshold (%)',
+    warningConstant: (error: string, threshold: string) =>
+      `At the highest point g is ${error}% below its surface value; the constant-g approximation exceeds the ${threshold}% threshold. Use the height-dependent model.`,
+    warningInverseSquare: (error: string, threshold: string) =>
+      `Constant g would be off by ${error}% at the highest point (threshold ${threshold}%); the difference is shown in the charts.`
+  },
+  bodies: {
+    mercury: 'Mercury',
+    venus: 'Venus',
+    earth: 'Earth',
+    mars: 'Mars',
+    jupiter: 'Jupiter',
+    saturn: 'Saturn',
+    uranus: 'Uranus',
+    neptune: 'Neptune',
+    moon: 'Moon',
+    io: 'Io',
+    europa: 'Europa',
+    ganymede: 'Ganymede',
+    callisto: 'Callisto',
+    titan: 'Titan',
+    enceladus: 'Enceladus',
+    triton: 'Triton',
+    pluto: 'Pluto',
+    ceres: 'Ceres',
+    custom: 'Custom'
+  },
+  bodyKinds: {
+    planet: 'Planets',
+    moon: 'Moons',
+    dwarf: 'Dwarf Planets',
+    custom: 'Free',
+    user: 'My Bodies'
+  },
+  bodyPicker: {
+    search: 'Search celestial bodies…',
+    noMatch: 'No matching celestial body.',
+    moonOf: (parent: string) => `Moon of ${parent}`,
+    newBody: 'New Celestial Body',
+    editBody: 'Edit celestial body',
+    deleteBody: 'Delete celestial body',
+    name: 'Name',
+    gravity: (unit: string) => `Surface Gravity (${unit})`,
+    atmosphereDensity: 'Atmosphere Density (kg/m³)',
+    radius: 'Radius (km)',
+    save: 'Save',
+    cancel: 'Cancel',
+    errors: {
+      name: 'Enter a name.'
+    }
+  },
+  dragModels: {
+    none: 'None',
+    linear: 'Linear (Stokes)',
+    quadratic: 'Quadratic'
+  },
+  integrators: {
+    analytic: 'Analytic',
+    euler: 'Explicit Euler',
+    semiImplicitEuler: 'Semi-implicit Euler',
+    verlet: 'Velocity Verlet',
+    rk4: 'RK4'
+  },
+  controls: {
+    title: 'Control Panel',
+    objects: 'Objects',
+    addObject: 'Add object',
+    removeObject: 'Remove selected object',
+    motionMode: 'Motion Type',
+    initialVelocity: (unit: string) => `Initial Velocity (${unit}, negative to throw upwards)`,
+    launchSpeed: (unit: string) => `Launch Speed (${unit})`,
+    launchAngle: 'Launch Angle (°)',
+    initialX: (unit: string) => `Horizontal Position (${unit})`,
+    initialHeight: (unit: string) => `Height (${unit})`,
+    mass: (unit: string) => `Mass (${unit})`,
+    planet: 'Celestial Body',
+    customGravity: (unit: string) => `Gravity (${unit})`,
+    restitution: 'Coefficient of Restitution (e)',
+    drag: 'Air Resistance',
+    linearCoefficient: 'Drag Coefficient b (kg/s)',
+    dragCoefficient: 'Drag Coefficient (Cd)',
+    area: 'Cross-sectional Area (m²)',
+    fluidDensity: 'Fluid Density (kg/m³)',
+    integrator: 'Numerical Method',
+    timeStep: 'Time Step h (s)',
+    playbackSpeed: 'Playback Speed',
+    sampleInterval: 'Sample Interval (s)',
+    start: 'Start',
+    resume: 'Resume',
+    pause: 'Pause',
+    stepBack: 'One sample back',
+    stepForward: 'One sample forward',
+    restart: 'Restart',
+    showTable: 'Show Data Table',
+    hideTable: 'Hide Data Table',
+    detailedTable: 'Detailed Table',
+    export: 'Export'
+  },
+  parameters: {
+    preset: 'Preset',
+    choosePreset: 'Choose a preset…',
+    presets: {
+      building: 'Drop from a 10-storey building',
+      well: 'Ball thrown down a well',
+      skydiver: 'Skydiver in free fall (4000 m)',
+      moonDrop: 'Hammer dropped on the Moon',
+      basketball: 'Basketball throw',
+      ramp: 'Block sliding down a ramp'
+    },
+    errors: {
+      required: 'Enter a value.',
+      number: 'Enter a valid number.',
+      min: (bound: string) => `Must be at least ${bound}.`,
+      max: (bound: string) => `Must be at most ${bound}.`
+    },
+    warnings: {
+      high: (limit: string) => `Unusually high; typical values stay below ${limit}.`,
+      low: (limit: string) => `Unusually low; typical values stay above ${limit}.`,
+      kineticAboveStatic: 'Kinetic friction is normally lower than static friction.'
+    }
+  },
+  history: {
+    title: 'Library',
+    scenarios: 'Saved Scenarios',
+    scenarioName: 'Scenario name',
+    defaultScenarioName: (count: number) => `Scenario ${count}`,
+    save: 'Save',
+    load: 'Load',
+    rename: 'Rename',
+    delete: 'Delete',
+    noScenarios: 'No saved scenarios yet.',
+    runs: 'Run History',
+    runsIntro: (max: number) => `Every completed run is saved automatically; the newest ${max} are kept.`,
+    noRuns: 'No completed runs yet.',
+    runSummary: (count: number, duration: string) => `${count} ${count === 1 ? 'object' : 'objects'} · ${duration} s`,
+    compare: 'Compare',
+    compareHint: 'Pick up to two runs; they are drawn as dashed lines in the charts and added as columns to the table.',
+    storageFailed: 'The library could not be accessed. Browser storage may be disabled.',
+    lockedByLesson: 'Saved items cannot be loaded during a lesson. Exit the lesson to load them.',
+    overlayHeight: (name: string, unit: string) => `${name} – Height (${unit})`,
+    overlayVelocity: (name: string, unit: string) => `${name} – Velocity (${unit})`
+  },
+  lessons: {
+    title: 'Lessons',
+    intro: 'Pick a prepared exercise: the lesson sets up the scenario, locks some settings and compares your predictions with the simulated results.',
+    loading: 'Loading lessons…',
+    loadFailed: 'The lesson list could not be loaded.',
+    someFailed: (ids: string) => `Some lessons could not be loaded: ${ids}`,
+    noLessons: 'No lessons found.',
+    lesson: 'Lesson',
+    start: 'Start Lesson',
+    exit: 'Leave Lesson',
+    locked: 'Settings locked by the lesson cannot be changed.',
+    prediction: 'Your prediction',
+    check: 'Check Answers',
+    retry: 'Try Again',
+    runFirst: 'Enter every prediction and run the simulation to the end before checking.',
+    simulated: (value: string) => `Simulated: ${value}`,
+    tolerance: (percent: string) => `Tolerance ±${percent}%`,
+    correct: 'Correct',
+    incorrect: 'Incorrect',
+    unanswered: 'This question could not be answered from the current run.',
+    score: (correct: number, total: number) => `${correct} of ${total} correct`
+  },
+  share: {
+    copyLink: 'Copy Link',
+    copied: 'Link copied',
+    copyFailed: 'The link could not be copied; copy it manually below.',
+    ignored: (keys: string) => `Some values in the link were invalid and the defaults were used: ${keys}`,
+    dismiss: 'Dismiss warning'
+  },
+  canvas: {
+    title: 'Simulation Area',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    fit: 'Fit the whole fall',
+    follow: 'Follow',
+    followTitle: 'Follow the selected object',
+    timeline: 'Timeline',
+    timelineLabel: 'Timeline',
+    overlays: {
+      velocity: 'Velocity',
+      acceleration: 'Acceleration',
+      forces: 'Forces'
+    },
+    overlayTitles: {
+      velocity: 'Show velocity vectors',
+      acceleration: 'Show acceleration vectors',
+      forces: 'Show the free-body diagram of the selected object'
+    }
+  },
+  a11y: {
+    shortcuts: 'Shortcuts: Space start/pause, R restart, T show/hide the table',
+    announceInterval: 'Announce Readouts Every (s)',
+    announceOff: 'Off',
+    readout: (name: string, time: string, height: string, velocity: string) =>
+      `${name}: time ${time}, height ${height}, velocity ${velocity}`,
+    impact: (name: string, time: string, speed: string) => `${name} hit the ground at ${time} at ${speed}`,
+    landed: (name: string) => `${name} has stopped`,
+    canvasLabel: 'Simulation view',
+    canvasSummary: (mode: string, count: number) => `${mode} mode, ${count} ${count === 1 ? 'object' : 'objects'}.`,
+    objectSummary: (name: string, height: string, velocity: string, landed: boolean) =>
+      `${name}: height ${height}, velocity ${velocity}${landed ? ', stopped' : ''}.`
+  },
+  forces: {
+    title: (name: string) => `Free-body diagram: ${name}`,
+    weight: 'Weight',
+    normal: 'Normal force',
+    friction: 'Friction',
+    drag: 'Drag'
+  },
+  readouts: {
+    time: 'Time',
+    height: 'Height',
+    velocity: 'Velocity',
+    verticalVelocity: 'Vertical Velocity',
+    acceleration: 'Acceleration',
+    terminalVelocity: 'Terminal Velocity',
+    horizontalPosition: 'Horizontal Position',
+    horizontalVelocity: 'Horizontal Velocity',
+    range: 'Range',
+    apexHeight: 'Apex Height',
+    flightTime: 'Flight Time'
+  },
+  table: {
+    columns: {
+      time: 'Time (s)',
+      height: (unit: string) => `Height (${unit})`,
+      velocity: (unit: string) => `Velocity (${unit})`,
+      acceleration: (unit: string) => `Acceleration (${unit})`,
+      displacement: (unit: string) => `Displacement (${unit})`,
+      x: (unit: string) => `Horizontal Position (${unit})`,
+      horizontalVelocity: (unit: string) => `Horizontal Velocity (${unit})`,
+      mass: (unit: string) => `Mass (${unit})`,
+      kineticEnergy: 'Kinetic Energy (J)',
+      potentialEnergy: 'Potential Energy (J)',
+      totalEnergy: 'Total Energy (J)',
+      dragLoss: 'Friction Loss (J)',
+      impactLoss: 'Impact Loss (J)',
+      impact: 'Impact',
+      measuredHeight: (unit: string) => `Measured Height (${unit})`,
+      residual: (unit: string) => `Residual (${unit})`
+    },
+    stopped: 'stopped',
+    modalTitle: (name: string, count: number) => `📊 Simulation Data Table — ${name} (${count} samples)`,
+    pageInfo: (page: number, pages: number, count: number) => `Page ${page} / ${pages} - ${count} samples in total`
+  },
+  energy: {
+    title: 'Energy (J)',
+    potential: 'Potential',
+    kinetic: 'Kinetic',
+    total: 'Total',
+    mechanical: 'Mechanical',
+    dragLoss: 'Friction Loss',
+    impactLoss: 'Impact Loss',
+    dissipated: 'Dissipated'
+  },
+  charts: {
+    title: 'Charts',
+    showEnergy: 'Energy chart',
+    height: 'Height – Time',
+    velocity: 'Velocity – Time',
+    acceleration: 'Acceleration – Time',
+    energy: (name: string) => `Energy – Time (${name})`,
+    gravityDifference: 'Difference from Constant g – Height'
+  },
+  comparison: {
+    title: 'Numerical Method Comparison',
+    metrics: {
+      height: 'Height Error',
+      velocity: 'Velocity Error',
+      energy: 'Mechanical Energy Drift'
+    },
+    description: (timeStep: string) => `Deviation of each method from the analytic solution (numeric − analytic), step h = ${timeStep} s`,
+    noAnalytic: 'There is no analytic solution for these parameters.'
+  },
+  measurement: {
+    title: 'Measured Data',
+    import: 'Import',
+    clear: 'Remove measurement',
+    file: 'File',
+    series: 'Compared Series',
+    seriesOption: (name: string, count: number) => `${name} (${count} points)`,
+    alignStart: 'Treat the first measurement as t = 0',
+    skipped: (count: number) => `${count} ${count === 1 ? 'row' : 'rows'} could not be read and ${count === 1 ? 'was' : 'were'} left out.`,
+    intro: 'Upload your experiment measurements (time–height) as CSV or JSON; exported simulation files are read too. ' +
+      'Measured points are shown on the height chart and the table lists their differences from the selected object.',
+    errors: {
+      unreadable: 'The file could not be read.',
+      empty: 'The file is empty.',
+      missingColumns: 'Time and height columns were not found.',
+      invalidJson: 'The JSON file could not be read.',
+      noPoints: 'No time–height measurements were found in the file.'
+    }
+  },
+  fit: {
+    title: 'Curve Fitting',
+    sources: {
+      simulation: 'Simulation',
+      measurement: 'Measurement'
+    },
+    models: {
+      quadratic: 'Parabola (no drag)',
+      linearDrag: 'Linear drag',
+      quadraticDrag: 'Quadratic drag'
+    },
+    description: (name: string) => `Least-squares fit to the ${name} data. Drag across the chart to pick the range.`,
+    noData: 'No data yet. Run the simulation or load a measurement.',
+    data: 'Data',
+    curve: 'Fit',
+    range: (start: string, end: string, count: number) => `Range: ${start} – ${end} s (${count} points)`,
+    resetRange: 'Reset Range',
+    failed: (minimum: number) => `The fit failed. The range needs at least ${minimum} points.`,
+    gravity: 'Gravitational Acceleration (g)',
+    initialVelocity: 'Initial Velocity (down +)',
+    initialHeight: 'Initial Height',
+    terminalVelocity: 'Terminal Velocity',
+    linearDrag: 'Drag Coefficient b',
+    quadraticDrag: 'Drag Coefficient Cd',
+    quality: 'R² / RMS Residual',
+    reference: (name: string) => `Compared with ${name}`,
+    difference: 'difference',
+    dragNote: (mass: string, area: string | null, density: string | null) =>
+      `The drag coefficient is computed with the selected object's mass (${mass})` +
+      (area === null ? '' : `, cross-sectional area (${area} m²) and fluid density (${density} kg/m³)`) +
+      '.'
+  },
+  export: {
+    title: '📤 Export',
+    formats: {
+      csv: { name: 'CSV', description: 'Measurement data for spreadsheets' },
+      json: { name: 'JSON', description: 'Data together with celestial body, gravity, mass and initial conditions' },
+      image: { name: 'Image', description: 'Snapshot of the simulation area or the charts' }
+    },
+    separator: 'Separator',
+    separators: {
+      ';': 'Semicolon (;)',
+      ',': 'Comma (,)'
+    },
+    decimalMark: 'Decimal Mark',
+    decimalMarks: {
+      ',': 'Comma (3,14)',
+      '.': 'Point (3.14)'
+    },
+    headerLanguage: 'Header Language',
+    ambiguous: 'A comma is selected as both the separator and the decimal mark; numbers will be quoted.',
+    content: 'Content',
+    imageTargets: {
+      canvas: 'Simulation Area',
+      charts: 'Charts'
+    },
+    imageFormat: 'Format',
+    filename: 'File Name',
+    defaultFilename: 'free_fall_data',
+    imageSuffixes: {
+      canvas: 'simulation',
+      charts: 'charts'
+    },
+    download: 'Download',
+    imageNotFound: 'No image was found to export.',
+    renderFailed: 'The image could not be created.',
+    svgLoadFailed: 'The SVG image could not be loaded.',
+    failed: 'The export failed.',
+    objectHeader: 'Object',
+    impactColumns: {
+      preVelocity: (unit: string) => `Pre-impact Velocity (${unit})`,
+      postVelocity: (unit: string) => `Post-impact Velocity (${unit})`,
+      energyLoss: 'Energy Loss (J)'
+    }
+  }
+};
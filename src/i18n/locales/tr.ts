@@ -0,0 +1,434 @@
+// Turkish UI text; the other locales must provide the same keys
+export const tr = {
+  app: {
+    title: 'Modern Serbest Düşme Simülasyonu',
+    subtitle: 'Fizik yasalarını modern arayüzle keşfedin',
+    language: 'Dil'
+  },
+  units: {
+    title: 'Birimler',
+    systems: {
+      si: 'SI',
+      imperial: 'İngiliz',
+      custom: 'Özel'
+    },
+    customTitle: 'Her büyüklük için birimi ayrı seç',
+    quantities: {
+      length: 'Uzunluk',
+      speed: 'Hız',
+      acceleration: 'İvme',
+      mass: 'Kütle'
+    }
+  },
+  common: {
+    close: 'Kapat',
+    noData: 'Henüz veri bulunmuyor. Simülasyonu çalıştırarak veri toplayın.',
+    infinity: '∞'
+  },
+  errorBoundary: {
+    title: 'Bir şeyler ters gitti.'
+  },
+  objects: {
+    defaultName: (id: number) => `Nesne ${id}`
+  },
+  modes: {
+    vertical: 'Dikey',
+    projectile: 'Eğik Atış',
+    incline: 'Eğik Düzlem'
+  },
+  incline: {
+    angle: 'Eğim Açısı (°)',
+    speed: (unit: string) => `Rampa Boyunca İlk Hız (${unit})`,
+    shape: 'Cisim',
+    shapes: {
+      block: 'Blok (kayar)',
+      ball: 'Top (yuvarlanır)'
+    },
+    staticFriction: 'Statik Sürtünme Katsayısı (μs)',
+    kineticFriction: 'Kinetik Sürtünme Katsayısı (μk)',
+    holds: 'Statik sürtünme cismi tutuyor (tan θ ≤ μs); bir ilk hız verilmezse cisim kıpırdamaz.',
+    slips: 'Top yuvarlanamayacak kadar dik bir eğimde (μs < 2/7 · tan θ); blok gibi kayarak iner.',
+    distance: 'Rampa Boyunca Yol',
+    alongSpeed: 'Rampa Boyunca Hız',
+    alongAcceleration: 'Rampa Boyunca İvme'
+  },
+  gravity: {
+    model: 'Yer Çekimi Modeli',
+    models: {
+      constant: 'Sabit g',
+      inverseSquare: 'Yüksekliğe bağlı (1/r²)'
+    },
+    radius: 'Cisim Yarıçapı (km)',
+    threshold: 'Sabit g Uyarı Eşiği (%)',
+    warningConstant: (error: string, threshold: string) =>
+      `En yüksek noktada g yüzey değerinden %${error} düşük; sabit g yaklaşımı %${threshold} eşiğini aşıyor. Yüksekliğe bağlı modeli kullanın.`,
+    warningInverseSquare: (error: string, threshold: string) =>
+      `Sabit g en yüksek noktada %${error} sapardı (eşik %${threshold}); fark grafiklerde gösteriliyor.`
+  },
+  bodies: {
+    mercury: 'Merkür',
+    venus: 'Venüs',
+    earth: 'Dünya',
+    mars: 'Mars',
+    jupiter: 'Jüpiter',
+    saturn: 'Satürn',
+    uranus: 'Uranüs',
+    neptune: 'Neptün',
+    moon: 'Ay',
+    io: 'Io',
+    europa: 'Europa',
+    ganymede: 'Ganymede',
+    callisto: 'Callisto',
+    titan: 'Titan',
+    enceladus: 'Enceladus',
+    triton: 'Triton',
+    pluto: 'Plüton',
+    ceres: 'Ceres',
+    custom: 'Özel'
+  },
+  bodyKinds: {
+    planet: 'Gezegenler',
+    moon: 'Uydular',
+    dwarf: 'Cüce Gezegenler',
+    custom: 'Serbest',
+    user: 'Kendi Cisimlerim'
+  },
+  bodyPicker: {
+    search: 'Gök cismi ara…',
+    noMatch: 'Eşleşen gök cismi yok.',
+    moonOf: (parent: string) => `${parent} uydusu`,
+    newBody: 'Yeni Gök Cismi',
+    editBody: 'Gök cismini düzenle',
+    deleteBody: 'Gök cismini sil',
+    name: 'Ad',
+    gravity: (unit: string) => `Yüzey Çekimi (${unit})`,
+    atmosphereDensity: 'Atmosfer Yoğunluğu (kg/m³)',
+    radius: 'Yarıçap (km)',
+    save: 'Kaydet',
+    cancel: 'Vazgeç',
+    errors: {
+      name: 'Bir ad girin.'
+    }
+  },
+  dragModels: {
+    none: 'Yok',
+    linear: 'Doğrusal (Stokes)',
+    quadratic: 'Karesel'
+  },
+  integrators: {
+    analytic: 'Analitik',
+    euler: 'Açık Euler',
+    semiImplicitEuler: 'Yarı Örtük Euler',
+    verlet: 'Velocity Verlet',
+    rk4: 'RK4'
+  },
+  controls: {
+    title: 'Kontrol Paneli',
+    objects: 'Nesneler',
+    addObject: 'Nesne ekle',
+    removeObject: 'Seçili nesneyi kaldır',
+    motionMode: 'Hareket Türü',
+    initialVelocity: (unit: string) => `İlk Hız (${unit}, yukarı atış için negatif)`,
+    launchSpeed: (unit: string) => `Atış Hızı (${unit})`,
+    launchAngle: 'Atış Açısı (°)',
+    initialX: (unit: string) => `Yatay Konum (${unit})`,
+    initialHeight: (unit: string) => `Yükseklik (${unit})`,
+    mass: (unit: string) => `Kütle (${unit})`,
+    planet: 'Gök Cismi',
+    customGravity: (unit: string) => `Yer Çekimi (${unit})`,
+    restitution: 'Sekme Katsayısı (e)',
+    drag: 'Hava Direnci',
+    linearCoefficient: 'Direnç Katsayısı b (kg/s)',
+    dragCoefficient: 'Sürükleme Katsayısı (Cd)',
+    area: 'Kesit Alanı (m²)',
+    fluidDensity: 'Akışkan Yoğunluğu (kg/m³)',
+    integrator: 'Sayısal Yöntem',
+    timeStep: 'Zaman Adımı h (s)',
+    playbackSpeed: 'Oynatma Hızı',
+    sampleInterval: 'Kayıt Aralığı (s)',
+    start: 'Başlat',
+    resume: 'Devam Et',
+    pause: 'Durdur',
+    stepBack: 'Bir kayıt geri',
+    stepForward: 'Bir kayıt ileri',
+    restart: 'Tekrar Başlat',
+    showTable: 'Veri Tablosunu Göster',
+    hideTable: 'Veri Tablosunu Gizle',
+    detailedTable: 'Detaylı Tablo',
+    export: 'Dışa Aktar'
+  },
+  parameters: {
+    preset: 'Hazır Senaryo',
+    choosePreset: 'Bir hazır senaryo seçin…',
+    presets: {
+      building: '10 katlı binadan bırakma',
+      well: 'Kuyuya aşağı atılan top',
+      skydiver: 'Paraşütsüz serbest düşüş (4000 m)',
+      moonDrop: 'Ay yüzeyinde çekiç bırakma',
+      basketball: 'Basketbol atışı',
+      ramp: 'Rampadan kayan blok'
+    },
+    errors: {
+      required: 'Bir değer girin.',
+      number: 'Geçerli bir sayı girin.',
+      min: (bound: string) => `En az ${bound} olmalı.`,
+      max: (bound: string) => `En fazla ${bound} olabilir.`
+    },
+    warnings: {
+      high: (limit: string) => `Alışılmadık derecede yüksek; tipik değerler ${limit} altındadır.`,
+      low: (limit: string) => `Alışılmadık derecede düşük; tipik değerler ${limit} üstündedir.`,
+      kineticAboveStatic: 'Kinetik sürtünme katsayısı normalde statik katsayıdan küçüktür.'
+    }
+  },
+  history: {
+    title: 'Kayıtlar',
+    scenarios: 'Kayıtlı Senaryolar',
+    scenarioName: 'Senaryo adı',
+    defaultScenarioName: (count: number) => `Senaryo ${count}`,
+    save: 'Kaydet',
+    load: 'Yükle',
+    rename: 'Yeniden adlandır',
+    delete: 'Sil',
+    noScenarios: 'Henüz kayıtlı senaryo yok.',
+    runs: 'Çalıştırma Geçmişi',
+    runsIntro: (max: number) => `Tamamlanan her çalıştırma otomatik kaydedilir; en yeni ${max} tanesi saklanır.`,
+    noRuns: 'Henüz tamamlanmış çalıştırma yok.',
+    runSummary: (count: number, duration: string) => `${count} nesne · ${duration} s`,
+    compare: 'Karşılaştır',
+    compareHint: 'En fazla iki çalıştırma seçin; grafiklerde kesikli çizgiyle, tabloda ek sütunlarla gösterilir.',
+    storageFailed: 'Kayıtlara erişilemedi. Tarayıcı depolaması kapalı olabilir.',
+    lockedByLesson: 'Ders sırasında kayıtlar yüklenemez. Yüklemek için dersten çıkın.',
+    overlayHeight: (name: string, unit: string) => `${name} – Yükseklik (${unit})`,
+    overlayVelocity: (name: string, unit: string) => `${name} – Hız (${unit})`
+  },
+  lessons: {
+    title: 'Ders Modu',
+    intro: 'Hazır bir alıştırma seçin: ders senaryoyu kurar, bazı ayarları kilitler ve tahminlerinizi simülasyonun sonuçlarıyla karşılaştırır.',
+    loading: 'Dersler yükleniyor…',
+    loadFailed: 'Ders listesi yüklenemedi.',
+    someFailed: (ids: string) => `Bazı dersler yüklenemedi: ${ids}`,
+    noLessons: 'Hiç ders bulunamadı.',
+    lesson: 'Ders',
+    start: 'Derse Başla',
+    exit: 'Dersten Çık',
+    locked: 'Dersin kilitlediği ayarlar değiştirilemez.',
+    prediction: 'Tahmininiz',
+    check: 'Cevapları Kontrol Et',
+    retry: 'Yeniden Dene',
+    runFirst: 'Tüm tahminleri girin ve kontrol etmeden önce simülasyonu sonuna kadar çalıştırın.',
+    simulated: (value: string) => `Simülasyon: ${value}`,
+    tolerance: (percent: string) => `Tolerans ±%${percent}`,
+    correct: 'Doğru',
+    incorrect: 'Yanlış',
+    unanswered: 'Bu soru mevcut çalışmadan cevaplanamadı.',
+    score: (correct: number, total: number) => `${total} sorudan ${correct} doğru`
+  },
+  share: {
+    copyLink: 'Bağlantıyı Kopyala',
+    copied: 'Bağlantı kopyalandı',
+    copyFailed: 'Bağlantı kopyalanamadı; aşağıdan elle kopyalayın.',
+    ignored: (keys: string) => `Bağlantıdaki bazı değerler geçersizdi ve varsayılanlar kullanıldı: ${keys}`,
+    dismiss: 'Uyarıyı kapat'
+  },
+  canvas: {
+    title: 'Simülasyon Alanı',
+    zoomIn: 'Yakınlaştır',
+    zoomOut: 'Uzaklaştır',
+    fit: 'Tüm düşüşü sığdır',
+    follow: 'Takip',
+    followTitle: 'Seçili nesneyi takip et',
+    timeline: 'Zaman Çizelgesi',
+    timelineLabel: 'Zaman çizelgesi',
+    overlays: {
+      velocity: 'Hız',
+      acceleration: 'İvme',
+      forces: 'Kuvvetler'
+    },
+    overlayTitles: {
+      velocity: 'Hız vektörlerini göster',
+      acceleration: 'İvme vektörlerini göster',
+      forces: 'Seçili nesnenin serbest cisim diyagramını göster'
+    }
+  },
+  a11y: {
+    shortcuts: 'Kısayollar: Boşluk başlat/duraklat, R tekrar başlat, T tabloyu aç/kapat',
+    announceInterval: 'Değerleri Seslendirme Aralığı (s)',
+    announceOff: 'Kapalı',
+    readout: (name: string, time: string, height: string, velocity: string) =>
+      `${name}: zaman ${time}, yükseklik ${height}, hız ${velocity}`,
+    impact: (name: string, time: string, speed: string) => `${name} ${time} anında ${speed} hızla çarptı`,
+    landed: (name: string) => `${name} durdu`,
+    canvasLabel: 'Simülasyon görünümü',
+    canvasSummary: (mode: string, count: number) => `${mode} modu, ${count} nesne.`,
+    objectSummary: (name: string, height: string, velocity: string, landed: boolean) =>
+      `${name}: yükseklik ${height}, hız ${velocity}${landed ? ', durdu' : ''}.`
+  },
+  forces: {
+    title: (name: string) => `Serbest cisim diyagramı: ${name}`,
+    weight: 'Ağırlık',
+    normal: 'Normal kuvvet',
+    friction: 'Sürtünme',
+    drag: 'Hava direnci'
+  },
+  readouts: {
+    time: 'Zaman',
+    height: 'Yükseklik',
+    velocity: 'Hız',
+    verticalVelocity: 'Dikey Hız',
+    acceleration: 'İvme',
+    terminalVelocity: 'Limit Hız',
+    horizontalPosition: 'Yatay Konum',
+    horizontalVelocity: 'Yatay Hız',
+    range: 'Menzil',
+    apexHeight: 'Tepe Yüksekliği',
+    flightTime: 'Uçuş Süresi'
+  },
+  table: {
+    columns: {
+      time: 'Zaman (s)',
+      height: (unit: string) => `Yükseklik (${unit})`,
+      velocity: (unit: string) => `Hız (${unit})`,
+      acceleration: (unit: string) => `İvme (${unit})`,
+      displacement: (unit: string) => `Yer Değiştirme (${unit})`,
+      x: (unit: string) => `Yatay Konum (${unit})`,
+      horizontalVelocity: (unit: string) => `Yatay Hız (${unit})`,
+      mass: (unit: string) => `Kütle (${unit})`,
+      kineticEnergy: 'Kinetik Enerji (J)',
+      potentialEnergy: 'Potansiyel Enerji (J)',
+      totalEnergy: 'Toplam Enerji (J)',
+      dragLoss: 'Sürtünme Kaybı (J)',
+      impactLoss: 'Çarpma Kaybı (J)',
+      impact: 'Çarpma',
+      measuredHeight: (unit: string) => `Ölçülen Yükseklik (${unit})`,
+      residual: (unit: string) => `Artık (${unit})`
+    },
+    stopped: 'durdu',
+    modalTitle: (name: string, count: number) => `📊 Simülasyon Veri Tablosu — ${name} (${count} kayıt)`,
+    pageInfo: (page: number, pages: number, count: number) => `Sayfa ${page} / ${pages} - Toplam ${count} kayıt`
+  },
+  energy: {
+    title: 'Enerji (J)',
+    potential: 'Potansiyel',
+    kinetic: 'Kinetik',
+    total: 'Toplam',
+    mechanical: 'Mekanik',
+    dragLoss: 'Sürtünme Kaybı',
+    impactLoss: 'Çarpma Kaybı',
+    dissipated: 'Kaybolan'
+  },
+  charts: {
+    title: 'Grafikler',
+    showEnergy: 'Enerji grafiği',
+    height: 'Yükseklik – Zaman',
+    velocity: 'Hız – Zaman',
+    acceleration: 'İvme – Zaman',
+    energy: (name: string) => `Enerji – Zaman (${name})`,
+    gravityDifference: 'Sabit g\'den Fark – Yükseklik'
+  },
+  comparison: {
+    title: 'Sayısal Yöntem Karşılaştırması',
+    metrics: {
+      height: 'Yükseklik Hatası',
+      velocity: 'Hız Hatası',
+      energy: 'Mekanik Enerji Sapması'
+    },
+    description: (timeStep: string) => `Her yöntemin analitik çözümden sapması (sayısal − analitik), adım h = ${timeStep} s`,
+    noAnalytic: 'Bu parametreler için analitik çözüm bulunmuyor.'
+  },
+  measurement: {
+    title: 'Ölçüm Verisi',
+    import: 'İçe Aktar',
+    clear: 'Ölçümü kaldır',
+    file: 'Dosya',
+    series: 'Karşılaştırılan Seri',
+    seriesOption: (name: string, count: number) => `${name} (${count} nokta)`,
+    alignStart: 'İlk ölçümü t = 0 kabul et',
+    skipped: (count: number) => `Okunamayan ${count} satır atlandı.`,
+    intro: 'Deney ölçümlerinizi (zaman–yükseklik) CSV veya JSON olarak yükleyin; dışa aktarılan simülasyon dosyaları da okunur. ' +
+      'Ölçülen noktalar yükseklik grafiğinde gösterilir, tabloda seçili nesneyle farkları listelenir.',
+    errors: {
+      unreadable: 'Dosya okunamadı.',
+      empty: 'Dosya boş.',
+      missingColumns: 'Zaman ve yükseklik sütunları bulunamadı.',
+      invalidJson: 'JSON dosyası okunamadı.',
+      noPoints: 'Dosyada zaman–yükseklik ölçümü bulunamadı.'
+    }
+  },
+  fit: {
+    title: 'Eğri Uydurma',
+    sources: {
+      simulation: 'Simülasyon',
+      measurement: 'Ölçüm'
+    },
+    models: {
+      quadratic: 'Parabol (sürtünmesiz)',
+      linearDrag: 'Doğrusal sürtünme',
+      quadraticDrag: 'Karesel sürtünme'
+    },
+    description: (name: string) => `${name} verisine en küçük kareler uydurması. Aralığı seçmek için grafikte sürükleyin.`,
+    noData: 'Henüz veri bulunmuyor. Simülasyonu çalıştırın veya ölçüm yükleyin.',
+    data: 'Veri',
+    curve: 'Uydurma',
+    range: (start: string, end: string, count: number) => `Aralık: ${start} – ${end} s (${count} nokta)`,
+    resetRange: 'Aralığı Sıfırla',
+    failed: (minimum: number) => `Uydurma yapılamadı. Aralık en az ${minimum} nokta içermeli.`,
+    gravity: 'Yerçekimi İvmesi (g)',
+    initialVelocity: 'Başlangıç Hızı (aşağı +)',
+    initialHeight: 'Başlangıç Yüksekliği',
+    terminalVelocity: 'Limit Hız',
+    linearDrag: 'Sürtünme Katsayısı b',
+    quadraticDrag: 'Sürükleme Katsayısı Cd',
+    quality: 'R² / RMS Artık',
+    reference: (name: string) => `${name} ile Karşılaştırma`,
+    difference: 'fark',
+    dragNote: (mass: string, area: string | null, density: string | null) =>
+      `Sürtünme katsayısı seçili nesnenin kütlesi (${mass})` +
+      (area === null ? '' : `, kesit alanı (${area} m²) ve akışkan yoğunluğu (${density} kg/m³)`) +
+      ' ile hesaplanır.'
+  },
+  export: {
+    title: '📤 Dışa Aktar',
+    formats: {
+      csv: { name: 'CSV', description: 'Tablo programları için ölçüm verisi' },
+      json: { name: 'JSON', description: 'Veri ile birlikte gök cismi, yerçekimi, kütle ve başlangıç koşulları' },
+      image: { name: 'Görsel', description: 'Simülasyon alanı veya grafiklerin görüntüsü' }
+    },
+    separator: 'Ayraç',
+    separators: {
+      ';': 'Noktalı virgül (;)',
+      ',': 'Virgül (,)'
+    },
+    decimalMark: 'Ondalık İşareti',
+    decimalMarks: {
+      ',': 'Virgül (3,14)',
+      '.': 'Nokta (3.14)'
+    },
+    headerLanguage: 'Başlık Dili',
+    ambiguous: 'Virgül hem ayraç hem ondalık işareti olarak seçildi; sayılar tırnak içinde yazılacak.',
+    content: 'İçerik',
+    imageTargets: {
+      canvas: 'Simülasyon Alanı',
+      charts: 'Grafikler'
+    },
+    imageFormat: 'Biçim',
+    filename: 'Dosya Adı',
+    defaultFilename: 'serbest_dusme_verileri',
+    imageSuffixes: {
+      canvas: 'simulasyon',
+      charts: 'grafikler'
+    },
+    download: 'İndir',
+    imageNotFound: 'Dışa aktarılacak görüntü bulunamadı.',
+    renderFailed: 'Görüntü oluşturulamadı.',
+    svgLoadFailed: 'SVG görüntüsü yüklenemedi.',
+    failed: 'Dışa aktarma başarısız oldu.',
+    objectHeader: 'Nesne',
+    impactColumns: {
+      preVelocity: (unit: string) => `Çarpma Öncesi Hız (${unit})`,
+      postVelocity: (unit: string) => `Çarpma Sonrası Hız (${unit})`,
+      energyLoss: 'Enerji Kaybı (J)'
+    }
+  }
+};
+
+export type Messages = typeof tr;
@@ -0,0 +1,140 @@
+/**
+ * Guided lessons, authored as JSON files in public/lessons/. A lesson sets up
+ * a scenario, locks some of its parameters and asks for numeric predictions,
+ * which are graded against the simulated run. public/lessons/index.json lists
+ * the lesson ids in the order they are offered; each lesson is <id>.json.
+ */
+
+import { z } from 'zod';
+import { Locale } from './i18n';
+import { SimulationData, sampleIndexAt } from './physics/engine';
+import { UnitQuantity } from './units';
+
+export type LessonQuantity = 'impactTime' | 'impactSpeed' | 'maxHeight' | 'range' | 'heightAt' | 'velocityAt';
+
+export const LESSON_QUANTITIES: LessonQuantity[] = ['impactTime', 'impactSpeed', 'maxHeight', 'range', 'heightAt', 'velocityAt'];
+
+// What each answer measures; times are always in seconds. Answers are
+// graded in SI and typed in the display units.
+export const QUANTITY_UNITS: Record<LessonQuantity, UnitQuantity | 's'> = {
+  impactTime: 's',
+  impactSpeed: 'speed',
+  maxHeight: 'length',
+  range: 'length',
+  heightAt: 'length',
+  velocityAt: 'speed'
+};
+
+// Text in a single language, or one entry per locale
+const textSchema = z.union([z.string(), z.record(z.string())]);
+
+const questionSchema = z.object({
+  prompt: textSchema,
+  quantity: z.enum(LESSON_QUANTITIES as [LessonQuantity, ...LessonQuantity[]]),
+  // The object asked about, counted from 1 as in the UI
+  object: z.number().int().min(1).default(1),
+  // Moment asked about by heightAt and velocityAt (s)
+  time: z.number().min(0).optional(),
+  // Accepted deviation from the simulated value (%)
+  tolerance: z.number().min(0).default(5)
+}).refine(
+  question => question.time !== undefined || (question.quantity !== 'heightAt' && question.quantity !== 'velocityAt'),
+  { path: ['time'] }
+);
+
+const lessonSchema = z.object({
+  title: textSchema,
+  intro: textSchema.optional(),
+  // The setup as a URL query, validated like a shared link
+  scenario: z.string(),
+  // Query keys the student cannot change, e.g. 'height' or 'planet'; 'objects'
+  // fixes the number of objects
+  locked: z.array(z.string()).default([]),
+  questions: z.array(questionSchema).min(1)
+});
+
+const indexSchema = z.array(z.string().regex(/^[\w-]{1,64}$/));
+
+export type LessonText = z.infer<typeof textSchema>;
+export type LessonQuestion = z.infer<typeof questionSchema>;
+export type Lesson = z.infer<typeof lessonSchema> & { id: string };
+
+export interface LessonCatalog {
+  lessons: Lesson[];
+  // Ids of lessons that could not be fetched or did not validate
+  failed: string[];
+}
+
+export interface Grade {
+  expected: number;
+  correct: boolean;
+}
+
+async function fetchJson(path: string): Promise<unknown> {
+  const response = await fetch(`${import.meta.env.BASE_URL}lessons/${path}`);
+  if (!response.ok) throw new Error(`${path}: ${response.status}`);
+  return response.json();
+}
+
+/**
+ * Loads every lesson named in the index. A broken lesson is reported rather
+ * than failing the rest; a missing or broken index rejects.
+ */
+export async function loadLessons(): Promise<LessonCatalog> {
+  const ids = indexSchema.parse(await fetchJson('index.json'));
+
+  const results = await Promise.all(ids.map(async id => {
+    try {
+      return { id, lesson: { ...lessonSchema.parse(await fetchJson(`${id}.json`)), id } as Lesson };
+    } catch {
+      return { id, lesson: null };
+    }
+  }));
+
+  return {
+    lessons: results.flatMap(({ lesson }) => lesson ? [lesson] : []),
+    failed: results.flatMap(({ id, lesson }) => lesson ? [] : [id])
+  };
+}
+
+// Falls back to the first language given when the locale is missing
+export function localize(text: LessonText, locale: Locale): string {
+  return typeof text === 'string' ? text : text[locale] ?? Object.values(text)[0] ?? '';
+}
+
+/**
+ * The simulated answer to a question, read from the recorded rows of its
+ * object. Null while the run has not got that far, e.g. before the landing.
+ */
+export function measure(question: LessonQuestion, data: SimulationData[]): number | null {
+  const firstImpact = data.find(row => row.impact);
+
+  switch (question.quantity) {
+    case 'impactTime':
+      return firstImpact ? firstImpact.impact.time : null;
+    case 'impactSpeed':
+      return firstImpact ? Math.abs(firstImpact.impact.preVelocity) : null;
+    case 'maxHeight':
+      return firstImpact ? Math.max(...data.map(row => row.height)) : null;
+    case 'range':
+      return firstImpact && data.length > 0 ? firstImpact.x - data[0].x : null;
+    case 'heightAt':
+    case 'velocityAt': {
+      const last = data[data.length - 1];
+      // A run that ended before the asked time has come to rest
+      if (!last || (last.time < question.time && !last.impact)) return null;
+      const row = data[sampleIndexAt(data, question.time)];
+      if (!row) return null;
+      return question.quantity === 'heightAt' ? row.height : row.velocity;
+    }
+  }
+}
+
+export function grade(question: LessonQuestion, prediction: number, data: SimulationData[]): Grade | null {
+  const expected = measure(question, data);
+  if (expected === null) return null;
+
+  // The recorded rows are rounded to centimetres, hence the small allowance
+  const allowed = Math.abs(expected) * question.tolerance / 100 + 0.005;
+  return { expected, correct: Math.abs(prediction - expected) <= allowed };
+}
@@ -1,13 +1,22 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import { ErrorBoundary } from './components/ErrorBoundary.tsx'
+import I18nProvider from './i18n/I18nProvider.tsx'
+import UnitsProvider from './units/UnitsProvider.tsx'
 import './index.css'
 import App from './App.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <ErrorBoundary>
-      <App />
-    </ErrorBoundary>
+    <BrowserRouter>
+      <I18nProvider>
+        <UnitsProvider>
+          <ErrorBoundary>
+            <App />
+          </ErrorBoundary>
+        </UnitsProvider>
+      </I18nProvider>
+    </BrowserRouter>
   </StrictMode>,
 )
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MeasurementError, parseMeasurements } from './measurements';
+
+const FEET = 0.3048;
+
+describe('CSV', () => {
+  it('reads `;` separated files with decimal commas', () => {
+    const data = parseMeasurements('Zaman (s);Yükseklik (m)\n0,5;18,775\n0;20\n', 'drop.csv');
+
+    expect(data.series).toEqual([
+      { name: 'drop', points: [{ time: 0, height: 20 }, { time: 0.5, height: 18.775 }] }
+    ]);
+    expect(data.skipped).toBe(0);
+  });
+
+  it('reads our own export in feet as one series per object', () => {
+    const text = [
+      'Object,Time (s),Height (ft),Velocity (ft/s)',
+      'Ball,0,100,0',
+      'Feather,0,50,0',
+      'Ball,1,83.9,32.2'
+    ].join('\n');
+    const data = parseMeasurements(text, 'run.csv');
+
+    expect(data.series.map(series => series.name)).toEqual(['Ball', 'Feather']);
+    expect(data.series[0].points[0].height).toBeCloseTo(100 * FEET, 9);
+    expect(data.series[0].points[1].height).toBeCloseTo(83.9 * FEET, 9);
+    expect(data.series[1].points[0].height).toBeCloseTo(50 * FEET, 9);
+  });
+
+  it('counts rows cut short instead of rejecting the file', () => {
+    const text = 'Time,Height,Object\n0,20,Ball\n0.5,18.8\n1\n1,15.1,Ball\n';
+    const data = parseMeasurements(text, 'run.csv');
+
+    expect(data.series).toHaveLength(1);
+    expect(data.series[0].points).toHaveLength(2);
+    expect(data.skipped).toBe(2);
+  });
+
+  it('rejects files without time and height columns', () => {
+    expect(() => parseMeasurements('Speed,Mass\n1,2\n', 'other.csv')).toThrow(MeasurementError);
+  });
+});
+
+describe('JSON', () => {
+  it('reads one series per entry of an exported objects[] list', () => {
+    const text = JSON.stringify({
+      objects: [
+        { name: 'Ball', data: [{ time: 0.1, height: 19.95 }, { time: 0, height: 20 }] },
+        { name: 'Feather', data: [{ time: 0, height: 20 }, { time: 'late', height: 1 }] },
+        { points: [[0, 5], [1, 0]] }
+      ]
+    });
+    const data = parseMeasurements(text, 'run.json');
+
+    expect(data.series).toEqual([
+      { name: 'Ball', points: [{ time: 0, height: 20 }, { time: 0.1, height: 19.95 }] },
+      { name: 'Feather', points: [{ time: 0, height: 20 }] },
+      { name: 'run 3', points: [{ time: 0, height: 5 }, { time: 1, height: 0 }] }
+    ]);
+    expect(data.skipped).toBe(1);
+  });
+});
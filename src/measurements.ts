@@ -0,0 +1,233 @@
+/**
+ * Measured time–height data from real drops (video tracking, light gates),
+ * read from CSV or JSON so it can be laid over the simulation. Heights are
+ * kept in metres; a CSV height header naming another length unit, as our
+ * own exports in feet do, is converted.
+ */
+
+import { findUnit } from './units';
+
+export interface MeasuredPoint {
+  time: number;
+  height: number;
+}
+
+export interface MeasuredSeries {
+  name: string;
+  points: MeasuredPoint[];
+}
+
+export interface MeasuredData {
+  fileName: string;
+  // A file may hold several runs, e.g. one per object of an exported CSV
+  series: MeasuredSeries[];
+  // Rows or points that could not be read and were left out
+  skipped: number;
+}
+
+interface ParsedSeries {
+  series: MeasuredSeries[];
+  skipped: number;
+}
+
+// Parse failures carry a code so the message can be shown in the UI language
+export type MeasurementErrorCode = 'empty' | 'missingColumns' | 'invalidJson' | 'noPoints';
+
+export class MeasurementError extends Error {
+  constructor(public code: MeasurementErrorCode) {
+    super(code);
+    this.name = 'MeasurementError';
+  }
+}
+
+// A header is the name optionally followed by a unit, e.g. 'Zaman (s)' or
+// 'h [m]'; \b would also match inside words such as 'Hız'
+const TIME_HEADER = /^(zaman|time|t)(\s|\(|\[|$)/i;
+const HEIGHT_HEADER = /^(yükseklik|yukseklik|height|h|y)(\s|\(|\[|$)/i;
+const NAME_HEADER = /^(nesne|object|name)(\s|\(|\[|$)/i;
+const HEADER_UNIT = /[([]\s*([^)\]]+?)\s*[)\]]/;
+
+// Metres per unit of a height header; unknown or missing units are metres
+function heightScale(header: string): number {
+  const symbol = HEADER_UNIT.exec(header)?.[1];
+  return (symbol ? findUnit('length', symbol) : undefined)?.size ?? 1;
+}
+
+// Decimal commas are accepted in any file; a comma separator quotes them
+function parseNumber(text: string): number | null {
+  const value = Number(text.trim().replace(',', '.'));
+  return text.trim() !== '' && Number.isFinite(value) ? value : null;
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells;
+}
+
+// `;` or tabs win over commas, which may also be decimal marks
+function detectSeparator(line: string): string {
+  const unquoted = line.replace(/"[^"]*"/g, '');
+  if (unquoted.includes(';')) return ';';
+  if (unquoted.includes('\t')) return '\t';
+  return ',';
+}
+
+function sortPoints(points: MeasuredPoint[]): MeasuredPoint[] {
+  return [...points].sort((a, b) => a.time - b.time);
+}
+
+function parseCSV(text: string, fallbackName: string): ParsedSeries {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) throw new MeasurementError('empty');
+
+  const separator = detectSeparator(lines[0]);
+  const rows = lines.map(line => splitCsvLine(line, separator));
+
+  // Files without a header are read as time, height pairs
+  const hasHeader = rows[0].slice(0, 2).some(cell => parseNumber(cell) === null);
+  const header = hasHeader ? rows[0].map(cell => cell.trim()) : [];
+  const timeColumn = hasHeader ? header.findIndex(cell => TIME_HEADER.test(cell)) : 0;
+  const heightColumn = hasHeader ? header.findIndex(cell => HEIGHT_HEADER.test(cell)) : 1;
+  const nameColumn = hasHeader ? header.findIndex(cell => NAME_HEADER.test(cell)) : -1;
+
+  if (timeColumn < 0 || heightColumn < 0) {
+    throw new MeasurementError('missingColumns');
+  }
+  const scale = hasHeader ? heightScale(header[heightColumn]) : 1;
+
+  const series = new Map<string, MeasuredPoint[]>();
+  let skipped = 0;
+  rows.slice(hasHeader ? 1 : 0).forEach(cells => {
+    const time = parseNumber(cells[timeColumn] ?? '');
+    const height = parseNumber(cells[heightColumn] ?? '');
+    // A row cut short before its name cannot be told apart from another series
+    if (time === null || height === null || nameColumn >= cells.length) {
+      skipped++;
+      return;
+    }
+
+    const name = nameColumn >= 0 ? cells[nameColumn].trim() || fallbackName : fallbackName;
+    series.set(name, [...(series.get(name) ?? []), { time, height: height * scale }]);
+  });
+
+  return {
+    series: Array.from(series, ([name, points]) => ({ name, points: sortPoints(points) })),
+    skipped
+  };
+}
+
+function toPoint(entry: unknown): MeasuredPoint | null {
+  if (Array.isArray(entry)) {
+    const [time, height] = entry;
+    return typeof time === 'number' && typeof height === 'number' ? { time, height } : null;
+  }
+  if (entry && typeof entry === 'object') {
+    const record = entry as Record<string, unknown>;
+    const time = record.time ?? record.t;
+    const height = record.height ?? record.h ?? record.y;
+    return typeof time === 'number' && typeof height === 'number' ? { time, height } : null;
+  }
+  return null;
+}
+
+function toPoints(entries: unknown): { points: MeasuredPoint[]; skipped: number } {
+  if (!Array.isArray(entries)) return { points: [], skipped: 0 };
+  const points = entries.map(toPoint).filter((point): point is MeasuredPoint => point !== null);
+  return { points: sortPoints(points), skipped: entries.length - points.length };
+}
+
+/**
+ * Accepts our own JSON export (`objects[].data`), a bare array of points, or
+ * an object holding one under `points` or `data`. Points are `{ time, height }`
+ * (or `t` and `h`/`y`) objects or `[time, height]` pairs.
+ */
+function parseJSON(text: string, fallbackName: string): ParsedSeries {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new MeasurementError('invalidJson');
+  }
+
+  const single = (entries: unknown): ParsedSeries => {
+    const { points, skipped } = toPoints(entries);
+    return { series: [{ name: fallbackName, points }], skipped };
+  };
+
+  if (Array.isArray(json)) {
+    return single(json);
+  }
+
+  const record = (json ?? {}) as Record<string, unknown>;
+  if (Array.isArray(record.objects)) {
+    const parsed = record.objects.map((object: Record<string, unknown>) => toPoints(object.data ?? object.points));
+    return {
+      series: record.objects.map((object: Record<string, unknown>, index: number) => ({
+        name: typeof object.name === 'string' ? object.name : `${fallbackName} ${index + 1}`,
+        points: parsed[index].points
+      })),
+      skipped: parsed.reduce((sum, { skipped }) => sum + skipped, 0)
+    };
+  }
+
+  return single(record.points ?? record.data);
+}
+
+export function parseMeasurements(text: string, fileName: string): MeasuredData {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || fileName;
+  const isJSON = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+
+  const parsed = isJSON ? parseJSON(text, fallbackName) : parseCSV(text, fallbackName);
+  const series = parsed.series.filter(entry => entry.points.length > 0);
+
+  if (series.length === 0) {
+    throw new MeasurementError('noPoints');
+  }
+
+  return { fileName, series, skipped: parsed.skipped };
+}
+
+// Moves the first measurement to t = 0, for recordings started early
+export function alignToStart(points: MeasuredPoint[]): MeasuredPoint[] {
+  const start = points[0]?.time ?? 0;
+  return points.map(point => ({ ...point, time: point.time - start }));
+}
+
+// Measured height at `time` by linear interpolation; null outside the
+// measured range
+export function measuredHeightAt(points: MeasuredPoint[], time: number): number | null {
+  if (points.length === 0 || time < points[0].time || time > points[points.length - 1].time) return null;
+
+  const after = points.findIndex(point => point.time >= time);
+  const next = points[after];
+  const previous = points[Math.max(0, after - 1)];
+  if (next.time === previous.time) return next.height;
+
+  const fraction = (time - previous.time) / (next.time - previous.time);
+  return previous.height + fraction * (next.height - previous.height);
+}
@@ -0,0 +1,196 @@
+import { BUILT_IN_BODIES, DEFAULT_BODY, findBody } from './bodies';
+import { GravityModel } from './physics/gravity';
+import { DEFAULT_INCLINE, InclineParams, inertiaFactor } from './physics/incline';
+import { NO_DRAG, DragParams } from './physics/drag';
+import { IntegratorKind } from './physics/integrators';
+import { SimulationParams } from './physics/engine';
+
+// Vertical drops and throws, launches at an angle across the ground, or
+// motion down an inclined plane
+export type MotionMode = 'vertical' | 'projectile' | 'incline';
+
+export const MOTION_MODES: MotionMode[] = ['vertical', 'projectile', 'incline'];
+
+/**
+ * One falling object in a comparison run. Each object carries its own initial
+ * conditions, body and drag; the numerical settings are shared by all of them.
+ */
+export interface SimObject {
+  id: number;
+  name: string;
+  color: ObjectColor;
+  // Vertical mode; down positive, so a negative value throws upwards. In
+  // incline mode the speed along the ramp, down the slope positive
+  initialVelocity: number;
+  // Projectile mode; the angle is in degrees above the horizontal
+  launchSpeed: number;
+  launchAngle: number;
+  initialX: number;
+  initialHeight: number;
+  mass: number;
+  // Body id; gravity is copied from the body when it is picked and only
+  // edited directly for the custom body
+  planet: string;
+  gravity: number;
+  // Height-dependent gravity uses the body's radius, copied like the gravity
+  gravityModel: GravityModel;
+  bodyRadius: number;
+  drag: DragParams;
+  restitution: number;
+  // Incline mode only
+  incline: InclineParams;
+}
+
+export interface SharedSettings {
+  mode: MotionMode;
+  integrator: IntegratorKind;
+  timeStep: number;
+}
+
+export const DEFAULT_SETTINGS: SharedSettings = {
+  mode: 'vertical',
+  integrator: 'analytic',
+  timeStep: 0.01
+};
+
+export interface ObjectColor {
+  main: string;
+  dark: string;
+}
+
+export const OBJECT_COLORS: ObjectColor[] = [
+  { main: '#00F5FF', dark: '#0077AA' },
+  { main: '#E600FF', dark: '#7A0088' },
+  { main: '#34D399', dark: '#047857' },
+  { main: '#FBBF24', dark: '#B45309' },
+  { main: '#F87171', dark: '#B91C1C' },
+  { main: '#60A5FA', dark: '#1D4ED8' }
+];
+
+// One lane per color keeps every object distinguishable
+export const MAX_OBJECTS = OBJECT_COLORS.length;
+
+// `name` is the default name in the current language
+export function createObject(id: number, name: string, base?: Partial<SimObject>): SimObject {
+  return {
+    initialVelocity: 0,
+    launchSpeed: 20,
+    launchAngle: 45,
+    initialX: 0,
+    initialHeight: 50,
+    mass: 1,
+    planet: DEFAULT_BODY,
+    gravity: 9.81,
+    gravityModel: 'constant',
+    bodyRadius: findBody(BUILT_IN_BODIES, DEFAULT_BODY).radius,
+    drag: NO_DRAG,
+    restitution: 0,
+    incline: DEFAULT_INCLINE,
+    ...base,
+    id,
+    name,
+    color: OBJECT_COLORS[(id - 1) % OBJECT_COLORS.length]
+  };
+}
+
+export function gravityOf(object: SimObject): number {
+  return object.gravity;
+}
+
+// Launch velocity split into engine components (vertical down positive)
+export function launchVelocityOf(object: SimObject, mode: MotionMode): { vertical: number; horizontal: number } {
+  if (mode === 'vertical') {
+    return { vertical: object.initialVelocity, horizontal: 0 };
+  }
+
+  if (mode === 'incline') {
+    const slope = (object.incline.angle * Math.PI) / 180;
+    return {
+      vertical: object.initialVelocity * Math.sin(slope),
+      horizontal: object.initialVelocity * Math.cos(slope)
+    };
+  }
+
+  const angle = (object.launchAngle * Math.PI) / 180;
+  return {
+    vertical: -object.launchSpeed * Math.sin(angle),
+    horizontal: object.launchSpeed * Math.cos(angle)
+  };
+}
+
+export function toSimulationParams(object: SimObject, settings: SharedSettings): SimulationParams {
+  const launch = launchVelocityOf(object, settings.mode);
+
+  return {
+    initialHeight: object.initialHeight,
+    initialVelocity: launch.vertical,
+    initialX: settings.mode === 'vertical' ? 0 : object.initialX,
+    initialHorizontalVelocity: launch.horizontal,
+    mass: object.mass,
+    gravity: gravityOf(object),
+    gravityModel: object.gravityModel,
+    bodyRadius: object.bodyRadius,
+    drag: object.drag,
+    integrator: settings.integrator,
+    timeStep: settings.timeStep,
+    restitution: object.restitution,
+    incline: settings.mode === 'incline' ? object.incline : null
+  };
+}
+
+// '#RRGGBB' to an rgba() string, for trails and glows in an object's color
+export function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+// Highest point of the flight without drag; drag only ever lowers it, so this
+// is a safe bound for framing the canvas
+export function peakHeightOf(object: SimObject, mode: MotionMode): number {
+  const gravity = gravityOf(object);
+  if (gravity <= 0) return object.initialHeight;
+
+  // Up a frictionless ramp the whole speed turns into height, and so does a
+  // rolling ball's spin
+  const upward = Math.min(0, mode === 'incline' ? object.initialVelocity : launchVelocityOf(object, mode).vertical);
+  const rise = (inertiaFactor(mode === 'incline' ? object.incline : null) * upward * upward) / (2 * gravity);
+  const constantPeak = object.initialHeight + rise;
+  if (object.gravityModel === 'constant') return constantPeak;
+
+  // Energy conservation in the inverse-square field; at escape speed the
+  // object never comes back, so the constant-g peak frames the launch instead
+  const radius = object.bodyRadius;
+  const inverse = 1 / (radius + object.initialHeight) - rise / (radius * radius);
+  return inverse > 0 ? 1 / inverse - radius : constantPeak;
+}
+
+// Horizontal extent of the first flight without drag, also used for framing
+export function reachOf(object: SimObject, mode: MotionMode): { left: number; right: number } {
+  if (mode === 'vertical') return { left: 0, right: 0 };
+  if (mode === 'incline') {
+    const ramp = rampOf(object, mode);
+    return { left: ramp.topX, right: ramp.footX };
+  }
+
+  const gravity = gravityOf(object);
+  const { vertical, horizontal } = launchVelocityOf(object, mode);
+  const flightTime = gravity > 0
+    ? (-vertical + Math.sqrt(vertical * vertical + 2 * gravity * object.initialHeight)) / gravity
+    : 0;
+  const landingX = object.initialX + horizontal * flightTime;
+
+  return { left: Math.min(object.initialX, landingX), right: Math.max(object.initialX, landingX) };
+}
+
+// The ramp under an object in incline mode, from the highest point it can
+// reach down to the ground
+export function rampOf(object: SimObject, mode: MotionMode): { topX: number; topHeight: number; footX: number } {
+  const run = 1 / Math.tan((object.incline.angle * Math.PI) / 180);
+  const topHeight = peakHeightOf(object, mode);
+
+  return {
+    topX: object.initialX - (topHeight - object.initialHeight) * run,
+    topHeight,
+    footX: object.initialX + object.initialHeight * run
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * The numeric parameters of the control panel: their bounds, the typical
+ * ranges outside which a value is flagged, and how each one is typed in.
+ * Keys are the scenario query keys, which lessons also use to lock fields;
+ * gravityWarning is a display setting that is not part of a scenario.
+ * Bounds are in SI and shared with shared links, so a link cannot hold a
+ * value the form would reject.
+ */
+
+import { z } from 'zod';
+import { SimObject } from './objects';
+import { UnitConverter, UnitQuantity } from './units';
+
+export type ParameterKey =
+  | 'velocity'
+  | 'launchSpeed'
+  | 'angle'
+  | 'x'
+  | 'height'
+  | 'mass'
+  | 'gravity'
+  | 'radius'
+  | 'restitution'
+  | 'b'
+  | 'cd'
+  | 'area'
+  | 'density'
+  | 'slope'
+  | 'mus'
+  | 'muk'
+  | 'dt'
+  | 'gravityWarning';
+
+// A unit the field is always typed in, whatever the display units
+interface FixedUnit {
+  symbol: string;
+  // Size in SI, e.g. 1000 for kilometres
+  size: number;
+}
+
+export interface ParameterField {
+  min: number;
+  max: number;
+  // Values outside this range are accepted but flagged as unusual
+  typical?: { min?: number; max?: number };
+  unit: UnitQuantity | FixedUnit;
+}
+
+const plain = (symbol = ''): FixedUnit => ({ symbol, size: 1 });
+
+export const PARAMETER_FIELDS: Record<ParameterKey, ParameterField> = {
+  velocity: { min: -2000, max: 2000, typical: { min: -100, max: 100 }, unit: 'speed' },
+  // Beyond the speed of sound drag no longer grows with v²
+  launchSpeed: { min: 0, max: 2000, typical: { max: 343 }, unit: 'speed' },
+  angle: { min: -90, max: 90, unit: plain('°') },
+  x: { min: -100000, max: 100000, unit: 'length' },
+  // Above airliner altitudes the air thins out and g drops noticeably
+  height: { min: 1, max: 1000000, typical: { max: 10000 }, unit: 'length' },
+  mass: { min: 0.1, max: 1000000, typical: { max: 10000 }, unit: 'mass' },
+  // Jupiter, the strongest in the catalogue, has 24.8 m/s²
+  gravity: { min: 0.1, max: 1000, typical: { max: 30 }, unit: 'acceleration' },
+  radius: { min: 1, max: 1e9, unit: { symbol: 'km', size: 1000 } },
+  // Even a superball loses a few percent per bounce
+  restitution: { min: 0, max: 1, typical: { max: 0.95 }, unit: plain() },
+  b: { min: 0, max: 1000, unit: plain('kg/s') },
+  // A parachute is about 1.5
+  cd: { min: 0, max: 5, typical: { max: 2 }, unit: plain() },
+  area: { min: 0, max: 1000, typical: { max: 100 }, unit: plain('m²') },
+  // Water is 1000 kg/m³
+  density: { min: 0, max: 2000, unit: plain('kg/m³') },
+  slope: { min: 1, max: 89, unit: plain('°') },
+  // Rubber on dry concrete is about 1
+  mus: { min: 0, max: 2, typical: { max: 1.2 }, unit: plain() },
+  muk: { min: 0, max: 2, typical: { max: 1.2 }, unit: plain() },
+  // Coarser steps make the numerical methods visibly drift
+  dt: { min: 0.0001, max: 0.1, typical: { max: 0.05 }, unit: plain('s') },
+  // Relative error of constant g (%) above which the panel warns
+  gravityWarning: { min: 0, max: 100, unit: plain('%') }
+};
+
+export const PARAMETER_KEYS = Object.keys(PARAMETER_FIELDS) as ParameterKey[];
+
+// SI values of every field
+export type ParameterValues = Record<ParameterKey, number>;
+
+// Why a typed value was rejected
+export type ParameterError = 'required' | 'number' | 'min' | 'max';
+
+export type ParameterWarning =
+  | { kind: 'high' | 'low'; limit: number }
+  | { kind: 'kineticAboveStatic' };
+
+export function parameterValues(object: SimObject, timeStep: number, gravityWarning: number): ParameterValues {
+  return {
+    velocity: object.initialVelocity,
+    launchSpeed: object.launchSpeed,
+    angle: object.launchAngle,
+    x: object.initialX,
+    height: object.initialHeight,
+    mass: object.mass,
+    gravity: object.gravity,
+    radius: object.bodyRadius,
+    restitution: object.restitution,
+    b: object.drag.linearCoefficient,
+    cd: object.drag.dragCoefficient,
+    area: object.drag.area,
+    density: object.drag.fluidDensity,
+    slope: object.incline.angle,
+    mus: object.incline.staticFriction,
+    muk: object.incline.kineticFriction,
+    dt: timeStep,
+    gravityWarning
+  };
+}
+
+// The object fields behind one parameter; the time step and the warning
+// threshold are shared settings and have none
+export function objectChanges(object: SimObject, key: ParameterKey, value: number): Partial<SimObject> {
+  switch (key) {
+    case 'velocity': return { initialVelocity: value };
+    case 'launchSpeed': return { launchSpeed: value };
+    case 'angle': return { launchAngle: value };
+    case 'x': return { initialX: value };
+    case 'height': return { initialHeight: value };
+    case 'mass': return { mass: value };
+    case 'gravity': return { gravity: value };
+    case 'radius': return { bodyRadius: value };
+    case 'restitution': return { restitution: value };
+    case 'b': return { drag: { ...object.drag, linearCoefficient: value } };
+    case 'cd': return { drag: { ...object.drag, dragCoefficient: value } };
+    case 'area': return { drag: { ...object.drag, area: value } };
+    case 'density': return { drag: { ...object.drag, fluidDensity: value } };
+    case 'slope': return { incline: { ...object.incline, angle: value } };
+    case 'mus': return { incline: { ...object.incline, staticFriction: value } };
+    case 'muk': return { incline: { ...object.incline, kineticFriction: value } };
+    case 'dt':
+    case 'gravityWarning':
+      return {};
+  }
+}
+
+export function fieldSymbol(key: ParameterKey, units: UnitConverter): string {
+  const { unit } = PARAMETER_FIELDS[key];
+  return typeof unit === 'string' ? units.symbol(unit) : unit.symbol;
+}
+
+const round = (value: number, digits: number) => parseFloat(value.toPrecision(digits));
+
+// Rounded to 12 significant digits like the display units
+export function toField(key: ParameterKey, value: number, units: UnitConverter): number {
+  const { unit } = PARAMETER_FIELDS[key];
+  return typeof unit === 'string' ? units.toDisplay(unit, value) : round(value / unit.size, 12);
+}
+
+// Rounded to fewer digits than are shown, so a bound typed in as shown, e.g.
+// 3.28083989501 ft, comes back as the bound itself
+export function fromField(key: ParameterKey, value: number, units: UnitConverter): number {
+  const { unit } = PARAMETER_FIELDS[key];
+  return round(typeof unit === 'string' ? units.fromDisplay(unit, value) : value * unit.size, 10);
+}
+
+/**
+ * Reads a typed value into SI. Issue messages are ParameterError codes, so
+ * the text can follow the UI language.
+ */
+export function parameterSchema(key: ParameterKey, units: UnitConverter) {
+  const { min, max } = PARAMETER_FIELDS[key];
+  return z.string()
+    .trim()
+    .min(1, 'required')
+    .transform(Number)
+    .pipe(z.number({ invalid_type_error: 'number' }).finite('number'))
+    .transform(value => fromField(key, value, units))
+    .pipe(z.number().min(min, 'min').max(max, 'max'));
+}
+
+// Unusual but valid values; a friction pair is checked against each other
+export function parameterWarnings(values: ParameterValues): Partial<Record<ParameterKey, ParameterWarning>> {
+  const warnings: Partial<Record<ParameterKey, ParameterWarning>> = {};
+
+  PARAMETER_KEYS.forEach(key => {
+    const { typical } = PARAMETER_FIELDS[key];
+    if (typical?.max !== undefined && values[key] > typical.max) {
+      warnings[key] = { kind: 'high', limit: typical.max };
+    } else if (typical?.min !== undefined && values[key] < typical.min) {
+      warnings[key] = { kind: 'low', limit: typical.min };
+    }
+  });
+
+  if (!warnings.muk && values.muk > values.mus) {
+    warnings.muk = { kind: 'kineticAboveStatic' };
+  }
+
+  return warnings;
+}
+
+export type PresetId = 'building' | 'well' | 'skydiver' | 'moonDrop' | 'basketball' | 'ramp';
+
+/**
+ * Ready-made setups for the selected object, as scenario queries so they go
+ * through the same validation as shared links. Fields left out take their
+ * defaults, so a preset always fills the whole form.
+ */
+export const PRESETS: Record<PresetId, string> = {
+  // Ten storeys of about 3 m
+  building: 'height=30',
+  well: 'height=20&velocity=5&restitution=0',
+  // Earth's sea-level air, spread-eagle posture
+  skydiver: 'height=4000&mass=80&drag=quadratic&cd=1&area=0.7&restitution=0',
+  moonDrop: 'planet=moon&height=2&mass=1.3&restitution=0.2',
+  basketball: 'mode=projectile&height=2&launchSpeed=8&angle=50&mass=0.6&restitution=0.75',
+  ramp: 'mode=incline&height=5&slope=30&mus=0.4&muk=0.3'
+};
+
+export const PRESET_IDS = Object.keys(PRESETS) as PresetId[];
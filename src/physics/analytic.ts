@@ -0,0 +1,119 @@
+/**
+ * Closed-form solutions of the fall, used as the reference the numeric
+ * integrators are measured against. Same sign convention as the engine:
+ * down is positive. Positions are measured from the start of the motion.
+ */
+
+import { DragParams, terminalVelocity } from './drag';
+import { GravityModel } from './gravity';
+import { InclineParams } from './incline';
+import { Kinematics } from './integrators';
+
+interface AnalyticParams {
+  initialVelocity: number;
+  initialHorizontalVelocity: number;
+  mass: number;
+  gravity: number;
+  gravityModel: GravityModel;
+  drag: DragParams;
+  incline: InclineParams | null;
+}
+
+/**
+ * Returns position and velocity at time `t`, or null when the parameters
+ * have no closed form here: gravity that changes with height, motion on a
+ * ramp, where friction switches with the direction of motion, quadratic drag
+ * without gravity, or quadratic drag with any horizontal motion, which
+ * couples the two axes.
+ */
+export function analyticSolution(params: AnalyticParams, t: number): Kinematics | null {
+  const { initialVelocity: v0, initialHorizontalVelocity: u0, mass, gravity: g, drag } = params;
+  if (params.gravityModel !== 'constant' || params.incline) return null;
+
+  const vt = terminalVelocity(mass, g, drag);
+
+  if (!Number.isFinite(vt)) {
+    // Without drag the horizontal speed never changes
+    return {
+      displacement: v0 * t + 0.5 * g * t * t,
+      velocity: v0 + g * t,
+      x: u0 * t,
+      horizontalVelocity: u0
+    };
+  }
+
+  if (drag.model === 'linear') {
+    // Linear drag acts on each axis separately
+    const tau = mass / drag.linearCoefficient;
+    const decay = Math.exp(-t / tau);
+    return {
+      displacement: vt * t + (v0 - vt) * tau * (1 - decay),
+      velocity: vt + (v0 - vt) * decay,
+      x: u0 * tau * (1 - decay),
+      horizontalVelocity: u0 * decay
+    };
+  }
+
+  if (g <= 0 || vt <= 0 || u0 !== 0) return null;
+
+  return { ...quadraticSolution(v0, g, vt, t), x: 0, horizontalVelocity: 0 };
+}
+
+interface VerticalKinematics {
+  displacement: number;
+  velocity: number;
+}
+
+function quadraticSolution(v0: number, g: number, vt: number, t: number): VerticalKinematics {
+  const lengthScale = (vt * vt) / g;
+
+  if (v0 < 0) {
+    // Thrown upwards: decelerates to the apex, then falls from rest
+    const phase0 = Math.atan(-v0 / vt);
+    const apexTime = (phase0 * vt) / g;
+
+    if (t <= apexTime) {
+      const phase = phase0 - (g * t) / vt;
+      return {
+        displacement: -lengthScale * Math.log(Math.cos(phase) / Math.cos(phase0)),
+        velocity: -vt * Math.tan(phase)
+      };
+    }
+
+    const apex = -lengthScale * Math.log(1 / Math.cos(phase0));
+    const fall = quadraticSolution(0, g, vt, t - apexTime);
+    return { displacement: apex + fall.displacement, velocity: fall.velocity };
+  }
+
+  if (v0 === vt) {
+    return { displacement: vt * t, velocity: vt };
+  }
+
+  if (v0 < vt) {
+    const c = Math.atanh(v0 / vt);
+    const phase = (g * t) / vt + c;
+    return {
+      displacement: lengthScale * (logCosh(phase) - logCosh(c)),
+      velocity: vt * Math.tanh(phase)
+    };
+  }
+
+  // Faster than terminal velocity: slows down towards it
+  const c = Math.atanh(vt / v0);
+  const phase = (g * t) / vt + c;
+  return {
+    displacement: lengthScale * (logSinh(phase) - logSinh(c)),
+    velocity: vt / Math.tanh(phase)
+  };
+}
+
+// ln(sinh(x)) for x > 0 without overflowing for large x
+function logSinh(x: number): number {
+  return x + Math.log1p(-Math.exp(-2 * x)) - Math.LN2;
+}
+
+// ln(cosh(x)) without overflowing for large x
+function logCosh(x: number): number {
+  const ax = Math.abs(x);
+  return ax + Math.log1p(Math.exp(-2 * ax)) - Math.LN2;
+}
@@ -0,0 +1,78 @@
+/**
+ * Runs every numeric integrator side by side with the closed-form solution and
+ * reports how far each one has drifted at every sample.
+ */
+
+import { analyticSolution } from './analytic';
+import { SimulationParams, accelerationAt } from './engine';
+import { potentialPerMass } from './gravity';
+import { INTEGRATORS, Kinematics, NumericIntegrator, integrate } from './integrators';
+
+export type ComparisonMetric = 'height' | 'velocity' | 'energy';
+
+export type ComparisonRow = { time: number } & Record<NumericIntegrator, number>;
+
+export const COMPARISON_METRICS: Record<ComparisonMetric, { unit: string }> = {
+  height: { unit: 'm' },
+  velocity: { unit: 'm/s' },
+  energy: { unit: 'J' }
+};
+
+const METHODS = Object.keys(INTEGRATORS) as NumericIntegrator[];
+
+function metricValue(params: SimulationParams, metric: ComparisonMetric, state: Kinematics): number {
+  const height = params.initialHeight - state.displacement;
+
+  switch (metric) {
+    case 'velocity':
+      return state.velocity;
+    case 'energy': {
+      const speedSquared = state.velocity * state.velocity + state.horizontalVelocity * state.horizontalVelocity;
+      return 0.5 * params.mass * speedSquared + params.mass * potentialPerMass(params, height);
+    }
+    default:
+      return height;
+  }
+}
+
+/**
+ * Samples every `sampleInterval` seconds until the analytic solution reaches
+ * the ground. Each value is numeric minus analytic, so a positive energy error
+ * means the method is creating energy. Returns no rows when there is no
+ * closed form to compare against.
+ */
+export function compareIntegrators(
+  params: SimulationParams,
+  metric: ComparisonMetric,
+  sampleInterval = 0.1,
+  maxTime = 600
+): ComparisonRow[] {
+  if (!analyticSolution(params, 0)) return [];
+
+  const acceleration = (k: Kinematics) => accelerationAt(params, k);
+  const start: Kinematics = {
+    displacement: 0,
+    velocity: params.initialVelocity,
+    x: 0,
+    horizontalVelocity: params.initialHorizontalVelocity
+  };
+  const states = Object.fromEntries(METHODS.map(method => [method, start])) as Record<NumericIntegrator, Kinematics>;
+  const rows: ComparisonRow[] = [];
+
+  for (let time = sampleInterval; time <= maxTime; time += sampleInterval) {
+    const exact = analyticSolution(params, time);
+    const reference = metricValue(params, metric, exact);
+    const row = { time: parseFloat(time.toFixed(3)) } as ComparisonRow;
+
+    METHODS.forEach(method => {
+      states[method] = integrate(INTEGRATORS[method].step, states[method], sampleInterval, params.timeStep, acceleration);
+      row[method] = metricValue(params, metric, states[method]) - reference;
+    });
+
+    rows.push(row);
+
+    if (exact.displacement >= params.initialHeight) break;
+  }
+
+  return rows;
+}
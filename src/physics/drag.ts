@@ -0,0 +1,57 @@
+/**
+ * Drag force models. Forces are returned signed along the velocity, so the
+ * engine can simply subtract them from the weight.
+ */
+
+export type DragModel = 'none' | 'linear' | 'quadratic';
+
+export interface DragParams {
+  model: DragModel;
+  // Stokes coefficient b in F = b·v (kg/s)
+  linearCoefficient: number;
+  // Cd in F = ½·ρ·Cd·A·v²
+  dragCoefficient: number;
+  // Cross-sectional area A (m²)
+  area: number;
+  // Fluid density ρ (kg/m³)
+  fluidDensity: number;
+}
+
+export const DRAG_MODELS: DragModel[] = ['none', 'linear', 'quadratic'];
+
+export const NO_DRAG: DragParams = {
+  model: 'none',
+  linearCoefficient: 0.1,
+  dragCoefficient: 0.47,
+  area: 0.01,
+  fluidDensity: 1.225
+};
+
+export function dragForce(velocity: number, drag: DragParams): number {
+  switch (drag.model) {
+    case 'linear':
+      return drag.linearCoefficient * velocity;
+    case 'quadratic':
+      return 0.5 * drag.fluidDensity * drag.dragCoefficient * drag.area * velocity * Math.abs(velocity);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Speed at which drag balances the weight. Returns Infinity when there is no
+ * drag (or the drag parameters are zero), i.e. the object never stops
+ * accelerating.
+ */
+export function terminalVelocity(mass: number, gravity: number, drag: DragParams): number {
+  switch (drag.model) {
+    case 'linear':
+      return drag.linearCoefficient > 0 ? (mass * gravity) / drag.linearCoefficient : Infinity;
+    case 'quadratic': {
+      const k = 0.5 * drag.fluidDensity * drag.dragCoefficient * drag.area;
+      return k > 0 ? Math.sqrt((mass * gravity) / k) : Infinity;
+    }
+    default:
+      return Infinity;
+  }
+}
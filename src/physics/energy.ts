@@ -0,0 +1,46 @@
+/**
+ * Energy bookkeeping for a simulation state. Potential energy is measured from
+ * the ground, so an object at rest on the ground has none; with
+ * height-dependent gravity it follows the inverse-square field. A ball rolling
+ * down a ramp also carries the energy of its spin.
+ */
+
+import { SimulationParams, SimulationState } from './engine';
+import { potentialPerMass } from './gravity';
+import { hasFrictionLoss, inertiaFactor } from './incline';
+
+export interface EnergyBreakdown {
+  kinetic: number;
+  potential: number;
+  // kinetic + potential
+  total: number;
+  // Cumulative energy taken out by air resistance and ramp friction, and by
+  // impacts
+  dragLoss: number;
+  impactLoss: number;
+}
+
+export function initialEnergy(params: SimulationParams): number {
+  const { mass, initialVelocity, initialHorizontalVelocity, initialHeight } = params;
+  const speedSquared = initialVelocity * initialVelocity + initialHorizontalVelocity * initialHorizontalVelocity;
+  return 0.5 * mass * inertiaFactor(params.incline) * speedSquared + mass * potentialPerMass(params, initialHeight);
+}
+
+/**
+ * Impact losses are summed from the logged impacts. Drag losses, which include
+ * ramp friction, are whatever is left of the initial energy, so with a numeric
+ * integrator they also absorb its error; without drag or friction they are
+ * zero and any drift shows up in the total.
+ */
+export function energyBreakdown(state: SimulationState): EnergyBreakdown {
+  const { mass, drag, incline } = state.params;
+  const speedSquared = state.velocity * state.velocity + state.horizontalVelocity * state.horizontalVelocity;
+  const kinetic = 0.5 * mass * inertiaFactor(incline) * speedSquared;
+  const potential = mass * potentialPerMass(state.params, state.height);
+  const total = kinetic + potential;
+  const impactLoss = state.impacts.reduce((sum, impact) => sum + impact.energyLoss, 0);
+  const dissipates = drag.model !== 'none' || hasFrictionLoss(incline);
+  const dragLoss = !dissipates ? 0 : Math.max(0, initialEnergy(state.params) - total - impactLoss);
+
+  return { kinetic, potential, total, dragLoss, impactLoss };
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { GROUND_EPSILON, SimulationParams, SimulationState, createState, simulate, step } from './engine';
+import { DragParams, NO_DRAG, terminalVelocity } from './drag';
+import { NumericIntegrator } from './integrators';
+import { analyticSolution } from './analytic';
+
+const G = 9.81;
+
+function params(overrides: Partial<SimulationParams> = {}): SimulationParams {
+  return {
+    initialHeight: 20,
+    initialVelocity: 0,
+    initialX: 0,
+    initialHorizontalVelocity: 0,
+    mass: 1,
+    gravity: G,
+    gravityModel: 'constant',
+    bodyRadius: 6371000,
+    drag: NO_DRAG,
+    integrator: 'analytic',
+    timeStep: 0.01,
+    restitution: 0,
+    incline: null,
+    ...overrides
+  };
+}
+
+// Steps until the object comes to rest, calling `visit` with every state
+function runToRest(start: SimulationState, dt: number, visit: (state: SimulationState) => void = () => {}) {
+  let state = start;
+  while (!state.landed && state.time < 600) {
+    state = step(state, dt);
+    visit(state);
+  }
+  return state;
+}
+
+// Contact counts from GROUND_EPSILON up, so every fall is that much shorter
+const fallTime = (height: number) => Math.sqrt(2 * (height - GROUND_EPSILON) / G);
+
+describe('impact', () => {
+  it('hits the ground after √(2h/g)', () => {
+    const end = runToRest(createState(params({ initialHeight: 20 })), 0.05);
+
+    expect(end.impacts).toHaveLength(1);
+    expect(end.impacts[0].time).toBeCloseTo(fallTime(20), 6);
+    expect(end.impacts[0].preVelocity).toBeCloseTo(G * fallTime(20), 4);
+  });
+
+  it('cuts the step short at the moment of impact', () => {
+    const state = step(createState(params({ initialHeight: 5 })), 10);
+
+    expect(state.time).toBeCloseTo(fallTime(5), 6);
+    expect(state.height).toBe(0);
+    expect(state.impact).not.toBeNull();
+  });
+
+  it('never mutates the state it steps from', () => {
+    const start = createState(params());
+    const next = step(start, 0.5);
+
+    expect(start.time).toBe(0);
+    expect(next.time).toBe(0.5);
+  });
+
+  it('leaves a landed state as it is', () => {
+    const landed = runToRest(createState(params()), 0.1);
+
+    expect(step(landed, 1)).toBe(landed);
+  });
+});
+
+describe('bounces', () => {
+  it('loses apex height by e² per bounce', () => {
+    const height = 10;
+    const restitution = 0.8;
+    // Highest point reached after each impact
+    const apexes: number[] = [];
+
+    runToRest(createState(params({ initialHeight: height, restitution })), 0.001, state => {
+      if (state.impact) {
+        apexes.push(0);
+      } else if (apexes.length > 0) {
+        apexes[apexes.length - 1] = Math.max(apexes[apexes.length - 1], state.height);
+      }
+    });
+
+    expect(apexes.length).toBeGreaterThan(5);
+    let expected = height;
+    apexes.slice(0, 5).forEach(apex => {
+      expected = restitution ** 2 * (expected - GROUND_EPSILON);
+      expect(apex).toBeCloseTo(expected, 3);
+    });
+  });
+
+  it('comes to rest once the rebound is slow', () => {
+    const end = runToRest(createState(params({ restitution: 0.5 })), 0.01);
+
+    expect(end.landed).toBe(true);
+    expect(end.velocity).toBe(0);
+    expect(end.impacts[end.impacts.length - 1].postVelocity).toBe(0);
+  });
+});
+
+describe('drag', () => {
+  const linear: DragParams = { ...NO_DRAG, model: 'linear', linearCoefficient: 2 };
+  const quadratic: DragParams = { ...NO_DRAG, model: 'quadratic', dragCoefficient: 1, area: 0.7 };
+
+  it.each([
+    ['linear', 1, linear],
+    ['quadratic', 80, quadratic]
+  ])('approaches the %s terminal velocity', (_, mass, drag) => {
+    const start = createState(params({ initialHeight: 100000, mass, drag, integrator: 'rk4' }));
+    const state = step(start, 60);
+
+    expect(state.landed).toBe(false);
+    expect(state.velocity).toBeCloseTo(terminalVelocity(mass, G, drag), 3);
+    expect(state.acceleration).toBeCloseTo(0, 3);
+  });
+});
+
+describe('integrators', () => {
+  const drag: DragParams = { ...NO_DRAG, model: 'linear', linearCoefficient: 0.5 };
+  const duration = 2;
+  const exact = analyticSolution(params({ drag }), duration);
+
+  const errorOf = (integrator: NumericIntegrator, timeStep: number) => {
+    const state = step(createState(params({ initialHeight: 1000, drag, integrator, timeStep })), duration);
+    return Math.abs(state.displacement - exact.displacement);
+  };
+
+  it.each<NumericIntegrator>(['euler', 'semiImplicitEuler', 'verlet', 'rk4'])(
+    '%s converges on the closed form as the step shrinks',
+    integrator => {
+      const coarse = errorOf(integrator, 0.02);
+      const fine = errorOf(integrator, 0.01);
+      const finest = errorOf(integrator, 0.001);
+
+      expect(fine).toBeLessThan(coarse * 0.6);
+      expect(finest).toBeLessThan(0.02);
+    }
+  );
+});
+
+describe('simulate', () => {
+  it('stops at maxTime when the object never lands', () => {
+    const samples = simulate(params({ gravity: 0 }), 1, 10);
+
+    expect(samples).toHaveLength(10);
+    expect(samples[samples.length - 1].height).toBe(20);
+  });
+});
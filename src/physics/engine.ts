@@ -0,0 +1,443 @@
+/**
+ * Headless free-fall engine.
+ *
+ * Everything here is plain SI (m, s, kg) with the vertical axis pointing
+ * down, so a positive velocity means the object is falling. Horizontal motion
+ * is optional and runs to the right. On an inclined plane both components
+ * follow the slope and the run ends at the foot of the ramp. There is no DOM
+ * or React dependency: the same code drives the canvas and can be run from
+ * Node to produce a whole trajectory.
+ */
+
+import { DragParams, dragForce } from './drag';
+import { GravityModel, gravityAt } from './gravity';
+import { InclineParams, holdsAtRest, inertiaFactor, slopeAcceleration, slopeDirection, slopeSpeed } from './incline';
+import { Acceleration, INTEGRATORS, IntegratorKind, Kinematics, integrate } from './integrators';
+import { analyticSolution } from './analytic';
+import { energyBreakdown } from './energy';
+
+export interface SimulationParams {
+  initialHeight: number;
+  // Vertical launch velocity; negative throws the object upwards
+  initialVelocity: number;
+  // Launch position and velocity along the ground; zero for a vertical fall
+  initialX: number;
+  initialHorizontalVelocity: number;
+  mass: number;
+  // Surface gravity; the model decides whether it weakens with height
+  gravity: number;
+  gravityModel: GravityModel;
+  // Radius of the body (m), used by the inverse-square model
+  bodyRadius: number;
+  drag: DragParams;
+  integrator: IntegratorKind;
+  // Integration step h (s); ignored by the analytic solution
+  timeStep: number;
+  // Coefficient of restitution e; 0 stops dead on the first impact
+  restitution: number;
+  // The ramp the object moves on, or null for free motion
+  incline: InclineParams | null;
+}
+
+export interface ImpactEvent {
+  time: number;
+  // Velocity just before and just after the impact (down positive)
+  preVelocity: number;
+  postVelocity: number;
+  // Kinetic energy lost in the impact (J)
+  energyLoss: number;
+}
+
+export interface SimulationData {
+  time: number;
+  height: number;
+  velocity: number;
+  acceleration: number;
+  displacement: number;
+  x: number;
+  horizontalVelocity: number;
+  mass: number;
+  kineticEnergy: number;
+  potentialEnergy: number;
+  totalEnergy: number;
+  dragLoss: number;
+  impactLoss: number;
+  impact: ImpactEvent | null;
+}
+
+export interface SimulationState {
+  params: SimulationParams;
+  time: number;
+  height: number;
+  velocity: number;
+  acceleration: number;
+  displacement: number;
+  x: number;
+  horizontalVelocity: number;
+  landed: boolean;
+  // Start of the current flight; every bounce begins a new one
+  segment: { time: number } & Kinematics;
+  impacts: ImpactEvent[];
+  // Set only on the state that sits exactly on an impact
+  impact: ImpactEvent | null;
+}
+
+export type SimulationListener = (state: SimulationState) => void;
+
+export interface SimulationEngine {
+  getState: () => SimulationState;
+  reset: (params?: SimulationParams) => SimulationState;
+  load: (state: SimulationState) => SimulationState;
+  step: (dt: number) => SimulationState;
+  advance: (dt: number, sampleInterval: number) => SimulationState[];
+  subscribe: (listener: SimulationListener) => () => void;
+}
+
+// Heights below this are treated as touching the ground
+export const GROUND_EPSILON = 0.001;
+
+// Bisection rounds used to locate the moment of impact inside a step
+const IMPACT_ITERATIONS = 50;
+
+// Rebounds slower than this (m/s) are treated as coming to rest
+export const REST_SPEED = 0.05;
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+// Drag opposes the velocity as a whole, so with quadratic drag a fast
+// horizontal motion also slows the fall. `slideDirection` fixes the direction
+// ramp friction acts against; see step().
+export function accelerationAt(params: SimulationParams, state: Kinematics, slideDirection?: number): Acceleration {
+  const gravity = gravityAt(params, params.initialHeight - state.displacement);
+
+  // On a ramp the velocity always points along the slope, and so does the
+  // acceleration
+  if (params.incline) {
+    const { angle } = params.incline;
+    const speed = slopeSpeed(angle, state.velocity, state.horizontalVelocity);
+    const drag = dragForce(speed, params.drag) / params.mass;
+    const along = slopeAcceleration(params.incline, gravity, speed, drag, slideDirection || undefined);
+    const direction = slopeDirection(angle);
+    return { vertical: along * direction.vertical, horizontal: along * direction.horizontal };
+  }
+
+  const speed = Math.hypot(state.velocity, state.horizontalVelocity);
+  const dragPerSpeed = speed > 0 ? dragForce(speed, params.drag) / (speed * params.mass) : 0;
+
+  return {
+    vertical: gravity - dragPerSpeed * state.velocity,
+    horizontal: -dragPerSpeed * state.horizontalVelocity
+  };
+}
+
+function kinematicsOf(state: SimulationState): Kinematics {
+  return {
+    displacement: state.displacement,
+    velocity: state.velocity,
+    x: state.x,
+    horizontalVelocity: state.horizontalVelocity
+  };
+}
+
+export function createState(params: SimulationParams): SimulationState {
+  const start: Kinematics = {
+    displacement: 0,
+    velocity: params.initialVelocity,
+    x: params.initialX,
+    horizontalVelocity: params.initialHorizontalVelocity
+  };
+
+  return {
+    params,
+    time: 0,
+    height: params.initialHeight,
+    ...start,
+    acceleration: accelerationAt(params, start).vertical,
+    // An object that static friction holds on its ramp never starts moving
+    landed: params.initialHeight <= GROUND_EPSILON || (params.incline !== null
+      && holdsAtRest(params.incline)
+      && slopeSpeed(params.incline.angle, start.velocity, start.horizontalVelocity) === 0),
+    segment: { time: 0, ...start },
+    impacts: [],
+    impact: null
+  };
+}
+
+function solve(state: SimulationState, dt: number, slideDirection = 0): Kinematics {
+  const { params, segment } = state;
+  const acceleration = (k: Kinematics) => accelerationAt(params, k, slideDirection);
+
+  if (params.integrator === 'analytic') {
+    // The closed form restarts with every bounce
+    const elapsed = state.time + dt - segment.time;
+    const exact = analyticSolution({
+      ...params,
+      initialVelocity: segment.velocity,
+      initialHorizontalVelocity: segment.horizontalVelocity
+    }, elapsed);
+    if (exact) {
+      return {
+        displacement: segment.displacement + exact.displacement,
+        velocity: exact.velocity,
+        x: segment.x + exact.x,
+        horizontalVelocity: exact.horizontalVelocity
+      };
+    }
+  }
+
+  const integrator = INTEGRATORS[params.integrator === 'analytic' ? 'rk4' : params.integrator].step;
+  return integrate(integrator, kinematicsOf(state), dt, params.timeStep, acceleration);
+}
+
+// Only the vertical velocity rebounds. An object that comes to rest stays
+// where it landed rather than sliding, so it loses its horizontal speed too.
+// An object on a ramp stops at its foot.
+function bounce(state: SimulationState): SimulationState {
+  const { params } = state;
+  const preVelocity = state.velocity;
+  const rebound = -params.restitution * preVelocity;
+  const atRest = params.incline !== null || Math.abs(rebound) < REST_SPEED;
+  const postVelocity = atRest ? 0 : rebound;
+  const horizontalVelocity = atRest ? 0 : state.horizontalVelocity;
+  const horizontalLoss = state.horizontalVelocity * state.horizontalVelocity - horizontalVelocity * horizontalVelocity;
+
+  const impact: ImpactEvent = {
+    time: state.time,
+    preVelocity,
+    postVelocity,
+    energyLoss: 0.5 * params.mass * inertiaFactor(params.incline)
+      * (preVelocity * preVelocity - postVelocity * postVelocity + horizontalLoss)
+  };
+
+  const after: Kinematics = {
+    displacement: state.displacement,
+    velocity: postVelocity,
+    x: state.x,
+    horizontalVelocity
+  };
+
+  return {
+    ...state,
+    ...after,
+    acceleration: accelerationAt(params, after).vertical,
+    landed: atRest,
+    segment: { time: state.time, ...after },
+    impacts: [...state.impacts, impact],
+    impact
+  };
+}
+
+/**
+ * Advances the state by `dt` seconds. Returns a new state object; the input is
+ * never mutated. A landed state is returned unchanged.
+ *
+ * The analytic integrator evaluates the closed form at the new time; the
+ * numeric ones step from the current state in increments of `timeStep`.
+ * Should the closed form be unavailable, RK4 is used instead.
+ *
+ * If the object hits the ground during the step, the step is cut short at
+ * the moment of impact, so the returned time is the impact time rather than
+ * `state.time + dt`. The returned state carries the impact and is either at
+ * rest or already bouncing back up. An object that static friction catches
+ * on its ramp is likewise stopped at the moment its speed reaches zero.
+ */
+export function step(state: SimulationState, dt: number): SimulationState {
+  if (state.landed) return state;
+
+  const { params } = state;
+  // Only a downward-moving object can hit; right after a bounce it sits on
+  // the ground moving up
+  const reachesGround = (k: Kinematics) =>
+    params.initialHeight - k.displacement <= GROUND_EPSILON && k.velocity > 0;
+
+  // While static friction could hold a sliding object, kinetic friction keeps
+  // acting against its current direction for the whole step. Otherwise it
+  // would flip back and forth around zero speed, and the moment the object
+  // stops could not be found.
+  const { incline } = params;
+  const holdDirection = incline && holdsAtRest(incline)
+    ? Math.sign(slopeSpeed(incline.angle, state.velocity, state.horizontalVelocity))
+    : 0;
+  const stops = (k: Kinematics) =>
+    holdDirection !== 0 && slopeSpeed(incline.angle, k.velocity, k.horizontalVelocity) * holdDirection <= 0;
+  const ends = (k: Kinematics) => reachesGround(k) || stops(k);
+
+  let elapsed = dt;
+  let next = solve(state, dt, holdDirection);
+  const cut = ends(next);
+
+  if (cut) {
+    let low = 0;
+    let high = dt;
+    for (let i = 0; i < IMPACT_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const candidate = solve(state, mid, holdDirection);
+      if (ends(candidate)) {
+        high = mid;
+        next = candidate;
+      } else {
+        low = mid;
+      }
+    }
+    elapsed = high;
+  }
+
+  const hits = cut && reachesGround(next);
+  if (cut && !hits) next = { ...next, velocity: 0, horizontalVelocity: 0 };
+  const { displacement } = next;
+
+  const moved: SimulationState = {
+    ...state,
+    ...next,
+    time: state.time + elapsed,
+    height: hits ? 0 : Math.max(0, params.initialHeight - displacement),
+    acceleration: accelerationAt(params, next).vertical,
+    displacement: hits ? params.initialHeight : displacement,
+    landed: cut && !hits,
+    impact: null
+  };
+
+  return hits ? bounce(moved) : moved;
+}
+
+// First sample boundary strictly after `time`. The small tolerance keeps float
+// drift from skipping a boundary the state is already sitting on.
+export function nextSampleTime(time: number, sampleInterval: number): number {
+  return (Math.floor(time / sampleInterval + 1e-9) + 1) * sampleInterval;
+}
+
+/**
+ * Index of the last sample at or before `time`, or -1 if there is none. The
+ * tolerance absorbs the millisecond rounding of SimulationData times, so raw
+ * states and rounded rows can be looked up with the same time. Plain arrays
+ * of times work too.
+ */
+export function sampleIndexAt(samples: ({ time: number } | number)[], time: number): number {
+  let low = 0;
+  let high = samples.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const sample = samples[mid];
+    const sampleTime = typeof sample === 'number' ? sample : sample.time;
+
+    if (sampleTime <= time + 5e-4) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Advances by `dt` seconds, stopping exactly on every multiple of
+ * `sampleInterval` crossed on the way. Returns the final state together with
+ * the states at those sample points. Impacts are always included as samples,
+ * so every bounce and the final rest show up in the data.
+ */
+export function advance(
+  state: SimulationState,
+  dt: number,
+  sampleInterval: number
+): { state: SimulationState; samples: SimulationState[] } {
+  const samples: SimulationState[] = [];
+  const target = state.time + dt;
+  let current = state;
+
+  while (!current.landed && current.time < target - 1e-9) {
+    const nextSample = nextSampleTime(current.time, sampleInterval);
+    current = step(current, Math.min(nextSample, target) - current.time);
+
+    if (current.impact || current.time >= nextSample - 1e-9) {
+      samples.push(current);
+    }
+  }
+
+  return { state: current, samples };
+}
+
+export function toSimulationData(state: SimulationState): SimulationData {
+  const energy = energyBreakdown(state);
+
+  return {
+    time: round(state.time, 3),
+    height: round(state.height, 2),
+    velocity: round(state.velocity, 2),
+    acceleration: round(state.acceleration, 2),
+    displacement: round(state.displacement, 2),
+    x: round(state.x, 2),
+    horizontalVelocity: round(state.horizontalVelocity, 2),
+    mass: round(state.params.mass, 1),
+    kineticEnergy: round(energy.kinetic, 2),
+    potentialEnergy: round(energy.potential, 2),
+    totalEnergy: round(energy.total, 2),
+    dragLoss: round(energy.dragLoss, 2),
+    impactLoss: round(energy.impactLoss, 2),
+    impact: state.impact && {
+      time: round(state.impact.time, 3),
+      preVelocity: round(state.impact.preVelocity, 2),
+      postVelocity: round(state.impact.postVelocity, 2),
+      energyLoss: round(state.impact.energyLoss, 2)
+    }
+  };
+}
+
+/**
+ * Runs a whole drop with a fixed step and returns one sample per step. The
+ * `maxTime` guard keeps bad parameters (e.g. zero gravity) from looping forever.
+ */
+export function simulate(params: SimulationParams, dt: number, maxTime = 600): SimulationData[] {
+  const samples: SimulationData[] = [];
+  let state = createState(params);
+
+  while (!state.landed && state.time < maxTime) {
+    state = step(state, dt);
+    samples.push(toSimulationData(state));
+  }
+
+  return samples;
+}
+
+export function createEngine(params: SimulationParams): SimulationEngine {
+  let state = createState(params);
+  const listeners = new Set<SimulationListener>();
+
+  const emit = () => {
+    listeners.forEach(listener => listener(state));
+  };
+
+  return {
+    getState: () => state,
+    reset: (nextParams = state.params) => {
+      state = createState(nextParams);
+      emit();
+      return state;
+    },
+    load: (nextState: SimulationState) => {
+      state = nextState;
+      emit();
+      return state;
+    },
+    step: (dt: number) => {
+      state = step(state, dt);
+      emit();
+      return state;
+    },
+    advance: (dt: number, sampleInterval: number) => {
+      const result = advance(state, dt, sampleInterval);
+      state = result.state;
+      emit();
+      return result.samples;
+    },
+    subscribe: (listener: SimulationListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
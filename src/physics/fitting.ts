@@ -0,0 +1,247 @@
+/**
+ * Least-squares fits of time–height samples, used to estimate g, the launch
+ * velocity and drag from measured or simulated drops. Same sign convention
+ * as the engine: a positive velocity points down.
+ */
+
+import { DragModel, DragParams, NO_DRAG } from './drag';
+import { analyticSolution } from './analytic';
+
+export interface FitPoint {
+  time: number;
+  height: number;
+}
+
+// 'quadratic' is the drag-free parabola; the others add a terminal velocity
+export type FitModel = 'quadratic' | 'linearDrag' | 'quadraticDrag';
+
+export const FIT_MODELS: FitModel[] = ['quadratic', 'linearDrag', 'quadraticDrag'];
+
+export interface FitEstimate {
+  value: number;
+  // One standard deviation
+  uncertainty: number;
+}
+
+export interface FitResult {
+  model: FitModel;
+  count: number;
+  initialHeight: FitEstimate;
+  initialVelocity: FitEstimate;
+  gravity: FitEstimate;
+  // Only for the drag models
+  terminalVelocity: FitEstimate | null;
+  rSquared: number;
+  // Root mean square of the residuals (m)
+  rmse: number;
+  // Covariance of [h0, v0, g, vt]; the last row and column only with drag
+  covariance: number[][];
+  predict: (time: number) => number;
+}
+
+const MAX_ITERATIONS = 200;
+
+// Gauss-Jordan inverse; null for a singular matrix
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][column]) < 1e-300) return null;
+    [augmented[column], augmented[pivot]] = [augmented[pivot], augmented[column]];
+
+    const divisor = augmented[column][column];
+    augmented[column] = augmented[column].map(value => value / divisor);
+
+    for (let row = 0; row < n; row++) {
+      if (row === column) continue;
+      const factor = augmented[row][column];
+      augmented[row] = augmented[row].map((value, j) => value - factor * augmented[column][j]);
+    }
+  }
+
+  return augmented.map(row => row.slice(n));
+}
+
+// JᵀJ and Jᵀr of the linearized least-squares problem
+function normalEquations(jacobian: number[][], residuals: number[]) {
+  const size = jacobian[0].length;
+  const jtj = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => jacobian.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const jtr = Array.from({ length: size }, (_, i) => jacobian.reduce((sum, row, k) => sum + row[i] * residuals[k], 0));
+  return { jtj, jtr };
+}
+
+function dragFor(model: FitModel, gravity: number, terminalVelocity: number): DragParams {
+  // Fitted for unit mass, so the coefficients only have to reproduce the
+  // terminal velocity
+  const dragModel: DragModel = model === 'linearDrag' ? 'linear' : 'quadratic';
+  return {
+    ...NO_DRAG,
+    model: dragModel,
+    linearCoefficient: gravity / terminalVelocity,
+    dragCoefficient: (2 * gravity) / (terminalVelocity * terminalVelocity),
+    area: 1,
+    fluidDensity: 1
+  };
+}
+
+// Height at `time` for [h0, v0, g] or [h0, v0, g, vt]; NaN where the closed
+// form does not apply
+function heightModel(model: FitModel, params: number[], time: number): number {
+  const [h0, v0, g, vt] = params;
+  if (model === 'quadratic') return h0 - v0 * time - 0.5 * g * time * time;
+  if (!(vt > 0) || !(g > 0)) return NaN;
+
+  const exact = analyticSolution({
+    initialVelocity: v0,
+    initialHorizontalVelocity: 0,
+    mass: 1,
+    gravity: g,
+    gravityModel: 'constant',
+    drag: dragFor(model, g, vt),
+    incline: null
+  }, time);
+  return exact ? h0 - exact.displacement : NaN;
+}
+
+function sumOfSquares(values: number[]): number {
+  return values.reduce((sum, value) => sum + value * value, 0);
+}
+
+/**
+ * Levenberg-Marquardt with a numeric Jacobian. Steps that leave the valid
+ * parameter range (e.g. a negative terminal velocity) count as failures.
+ */
+function levenbergMarquardt(model: FitModel, points: FitPoint[], initial: number[]) {
+  const residualsOf = (params: number[]) => points.map(point => point.height - heightModel(model, params, point.time));
+  const jacobianOf = (params: number[]) => points.map(point => params.map((value, i) => {
+    const delta = 1e-6 * Math.max(Math.abs(value), 1);
+    const shifted = [...params];
+    shifted[i] += delta;
+    return (heightModel(model, shifted, point.time) - heightModel(model, params, point.time)) / delta;
+  }));
+
+  let params = initial;
+  let residuals = residualsOf(params);
+  let cost = sumOfSquares(residuals);
+  let lambda = 1e-3;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && Number.isFinite(cost); iteration++) {
+    const { jtj, jtr } = normalEquations(jacobianOf(params), residuals);
+    const damped = jtj.map((row, i) => row.map((value, j) => (i === j ? value * (1 + lambda) : value)));
+    const inverse = invert(damped);
+    if (!inverse) break;
+
+    const step = inverse.map(row => row.reduce((sum, value, j) => sum + value * jtr[j], 0));
+    const candidate = params.map((value, i) => value + step[i]);
+    const candidateResiduals = residualsOf(candidate);
+    const candidateCost = sumOfSquares(candidateResiduals);
+
+    if (Number.isFinite(candidateCost) && candidateCost < cost) {
+      const improvement = cost - candidateCost;
+      params = candidate;
+      residuals = candidateResiduals;
+      cost = candidateCost;
+      lambda = Math.max(lambda / 10, 1e-12);
+      if (improvement < 1e-14 * Math.max(cost, 1e-12)) break;
+    } else {
+      lambda *= 10;
+      if (lambda > 1e12) break;
+    }
+  }
+
+  return { params, residuals, jacobian: jacobianOf(params) };
+}
+
+// The parabola is linear in h0, v0 and g, so the normal equations solve it
+// directly
+function fitParabola(points: FitPoint[]) {
+  const jacobian = points.map(({ time }) => [1, -time, -0.5 * time * time]);
+  const { jtj, jtr } = normalEquations(jacobian, points.map(point => point.height));
+  const inverse = invert(jtj);
+  if (!inverse) return null;
+
+  const params = inverse.map(row => row.reduce((sum, value, j) => sum + value * jtr[j], 0));
+  const residuals = points.map(point => point.height - heightModel('quadratic', params, point.time));
+  return { params, residuals, jacobian };
+}
+
+/**
+ * Fits h(t) = h0 − v0·t − ½·g·t² by linear least squares, or the closed-form
+ * drag solution by Levenberg-Marquardt starting from that parabola.
+ * Uncertainties come from the parameter covariance scaled by the residual
+ * variance. Returns null when there are too few points or the fit fails.
+ */
+export function fitFall(points: FitPoint[], model: FitModel): FitResult | null {
+  const size = model === 'quadratic' ? 3 : 4;
+  if (points.length <= size) return null;
+
+  let fit = fitParabola(points);
+  if (!fit) return null;
+
+  if (model !== 'quadratic') {
+    const [h0, v0, g] = fit.params;
+    // Start with a terminal velocity well above the fastest observed speed,
+    // where drag only slightly bends the parabola
+    const duration = points[points.length - 1].time - points[0].time;
+    const fastest = Math.max(Math.abs(v0), Math.abs(v0 + g * duration), 1);
+    fit = levenbergMarquardt(model, points, [h0, v0, Math.max(g, 0.1), 3 * fastest]);
+  }
+
+  const { params, residuals, jacobian } = fit;
+  const { jtj } = normalEquations(jacobian, residuals);
+  const inverse = invert(jtj);
+  if (!inverse || params.some(value => !Number.isFinite(value))) return null;
+
+  const sse = sumOfSquares(residuals);
+  const variance = sse / (points.length - size);
+  const covariance = inverse.map(row => row.map(value => value * variance));
+  const estimate = (i: number): FitEstimate => ({ value: params[i], uncertainty: Math.sqrt(Math.max(0, covariance[i][i])) });
+
+  const mean = points.reduce((sum, point) => sum + point.height, 0) / points.length;
+  const sst = points.reduce((sum, point) => sum + (point.height - mean) ** 2, 0);
+
+  return {
+    model,
+    count: points.length,
+    initialHeight: estimate(0),
+    initialVelocity: estimate(1),
+    gravity: estimate(2),
+    terminalVelocity: size === 4 ? estimate(3) : null,
+    rSquared: sst > 0 ? 1 - sse / sst : 1,
+    rmse: Math.sqrt(sse / points.length),
+    covariance,
+    predict: (time: number) => heightModel(model, params, time)
+  };
+}
+
+/**
+ * Drag coefficient of a real object implied by a drag fit: b (kg/s) for
+ * linear drag, Cd for quadratic drag using the object's area and the fluid
+ * density. The uncertainty propagates the (g, vt) covariance.
+ */
+export function dragCoefficientOf(result: FitResult, mass: number, drag: DragParams): FitEstimate | null {
+  if (!result.terminalVelocity) return null;
+
+  const g = result.gravity.value;
+  const vt = result.terminalVelocity.value;
+  const varG = result.covariance[2][2];
+  const varVt = result.covariance[3][3];
+  const covGVt = result.covariance[2][3];
+
+  // value = c·g·vt^p, so the relative error is that of g and p times that of vt
+  const power = result.model === 'linearDrag' ? -1 : -2;
+  const scale = result.model === 'linearDrag' ? mass : (2 * mass) / (drag.fluidDensity * drag.area);
+  if (!Number.isFinite(scale)) return null;
+
+  const value = scale * g * Math.pow(vt, power);
+  const relativeVariance = varG / (g * g) + (power * power * varVt) / (vt * vt) + (2 * power * covGVt) / (g * vt);
+
+  return { value, uncertainty: Math.abs(value) * Math.sqrt(Math.max(0, relativeVariance)) };
+}
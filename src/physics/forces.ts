@@ -0,0 +1,63 @@
+/**
+ * The forces acting on an object at one instant, for the free-body diagram.
+ * Components use the engine's axes: vertical down positive, horizontal to the
+ * right. Forces are in newtons; friction is whatever the ramp has to supply
+ * for the acceleration the engine reports.
+ */
+
+import { dragForce } from './drag';
+import { GROUND_EPSILON, SimulationState, accelerationAt } from './engine';
+import { gravityAt } from './gravity';
+import { slopeDirection, slopeSpeed } from './incline';
+
+export type ForceKind = 'weight' | 'normal' | 'friction' | 'drag';
+
+export interface Force {
+  kind: ForceKind;
+  vertical: number;
+  horizontal: number;
+}
+
+// Forces too small to draw, e.g. drag at the top of a throw (N)
+const NEGLIGIBLE_FORCE = 1e-6;
+
+export function forcesOn(state: SimulationState): Force[] {
+  const { params } = state;
+  const weight = params.mass * gravityAt(params, state.height);
+  const forces: Force[] = [{ kind: 'weight', vertical: weight, horizontal: 0 }];
+
+  // At rest on the ground the ground carries the whole weight
+  if (state.landed && state.height <= GROUND_EPSILON) {
+    forces.push({ kind: 'normal', vertical: -weight, horizontal: 0 });
+    return forces;
+  }
+
+  const speed = Math.hypot(state.velocity, state.horizontalVelocity);
+  const drag = speed > 0 ? dragForce(speed, params.drag) : 0;
+  if (drag > NEGLIGIBLE_FORCE) {
+    forces.push({
+      kind: 'drag',
+      vertical: (-drag * state.velocity) / speed,
+      horizontal: (-drag * state.horizontalVelocity) / speed
+    });
+  }
+
+  if (params.incline) {
+    const { angle } = params.incline;
+    const down = slopeDirection(angle);
+    const normal = weight * down.horizontal;
+    // The surface normal points up and away from the ramp
+    forces.push({ kind: 'normal', vertical: -normal * down.horizontal, horizontal: normal * down.vertical });
+
+    // m·a = weight along the slope − drag + friction, solved for friction
+    const acceleration = accelerationAt(params, state);
+    const along = acceleration.vertical * down.vertical + acceleration.horizontal * down.horizontal;
+    const dragAlong = dragForce(slopeSpeed(angle, state.velocity, state.horizontalVelocity), params.drag);
+    const friction = params.mass * along - weight * down.vertical + dragAlong;
+    if (Math.abs(friction) > NEGLIGIBLE_FORCE) {
+      forces.push({ kind: 'friction', vertical: friction * down.vertical, horizontal: friction * down.horizontal });
+    }
+  }
+
+  return forces;
+}
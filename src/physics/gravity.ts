@@ -0,0 +1,45 @@
+/**
+ * Gravity as a function of height. The constant model is the usual flat,
+ * uniform field; the inverse-square one weakens with distance from the
+ * body's center, g(h) = g₀·R²/(R + h)², with g₀·R² standing in for G·M.
+ * The ground stays flat in both, only the strength of the field changes.
+ */
+
+export type GravityModel = 'constant' | 'inverseSquare';
+
+export const GRAVITY_MODELS: GravityModel[] = ['constant', 'inverseSquare'];
+
+interface GravityParams {
+  // Surface gravity g₀ (m/s²)
+  gravity: number;
+  gravityModel: GravityModel;
+  // Body radius R (m)
+  bodyRadius: number;
+}
+
+export function gravityAt({ gravity, gravityModel, bodyRadius }: GravityParams, height: number): number {
+  if (gravityModel === 'constant') return gravity;
+
+  const ratio = bodyRadius / (bodyRadius + Math.max(0, height));
+  return gravity * ratio * ratio;
+}
+
+/**
+ * Potential energy per kilogram relative to the ground. For the
+ * inverse-square field this is g₀·R·h/(R + h), which tends to g₀·h for small
+ * heights.
+ */
+export function potentialPerMass({ gravity, gravityModel, bodyRadius }: GravityParams, height: number): number {
+  if (gravityModel === 'constant') return gravity * height;
+  return (gravity * bodyRadius * height) / (bodyRadius + height);
+}
+
+/**
+ * How far constant gravity is off at a height, as a fraction of the surface
+ * value: 1 − R²/(R + h)². Independent of the model the object actually uses,
+ * since it answers whether the constant model is good enough there.
+ */
+export function constantGravityError(bodyRadius: number, height: number): number {
+  const ratio = bodyRadius / (bodyRadius + Math.max(0, height));
+  return 1 - ratio * ratio;
+}
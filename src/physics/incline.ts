@@ -0,0 +1,96 @@
+/**
+ * Motion on an inclined plane that falls away to the right. The object stays
+ * on the ramp, so only the component along the slope is free: gravity pulls
+ * it down the slope with g·sinθ and presses it into the ramp with g·cosθ,
+ * which sets the friction. A sliding block feels kinetic friction μk·g·cosθ
+ * against its motion and stays put while static friction μs can hold it. A
+ * ball is a solid sphere (I = ⅖·m·r²) that rolls without slipping, and so
+ * without friction losses, as long as μs can supply the torque; on a steeper
+ * slope it slips and is treated like a sliding block.
+ */
+
+export type InclineShape = 'block' | 'ball';
+
+export const INCLINE_SHAPES: InclineShape[] = ['block', 'ball'];
+
+export interface InclineParams {
+  // Slope above the horizontal (degrees)
+  angle: number;
+  staticFriction: number;
+  kineticFriction: number;
+  shape: InclineShape;
+}
+
+export const DEFAULT_INCLINE: InclineParams = {
+  angle: 30,
+  staticFriction: 0.4,
+  kineticFriction: 0.3,
+  shape: 'block'
+};
+
+// I/(m·r²) of a solid sphere
+const BALL_INERTIA = 2 / 5;
+
+// Speeds along the slope below this (m/s) count as standing still
+const STILL_SPEED = 1e-9;
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Unit vector down the slope in engine axes (vertical down positive)
+export function slopeDirection(angle: number): { vertical: number; horizontal: number } {
+  return { vertical: Math.sin(radians(angle)), horizontal: Math.cos(radians(angle)) };
+}
+
+// Signed speed along the slope, down positive
+export function slopeSpeed(angle: number, velocity: number, horizontalVelocity: number): number {
+  const direction = slopeDirection(angle);
+  return velocity * direction.vertical + horizontalVelocity * direction.horizontal;
+}
+
+// Rolling without slipping needs μs ≥ ⅖/(1 + ⅖)·tanθ = (2/7)·tanθ
+export function rolls(incline: InclineParams): boolean {
+  const limit = (BALL_INERTIA / (1 + BALL_INERTIA)) * Math.tan(radians(incline.angle));
+  return incline.shape === 'ball' && incline.staticFriction >= limit;
+}
+
+// Kinetic energy over ½·m·v²; a rolling ball also stores energy in its spin
+export function inertiaFactor(incline: InclineParams | null): number {
+  return incline && rolls(incline) ? 1 + BALL_INERTIA : 1;
+}
+
+// Whether static friction keeps a resting object in place; a rolling ball
+// never stays put on a slope
+export function holdsAtRest(incline: InclineParams): boolean {
+  return !rolls(incline) && Math.tan(radians(incline.angle)) <= incline.staticFriction;
+}
+
+// Energy goes into friction only while something slides
+export function hasFrictionLoss(incline: InclineParams | null): boolean {
+  return incline !== null && !rolls(incline) && incline.kineticFriction > 0;
+}
+
+/**
+ * Acceleration along the slope, down positive, for a speed along it. `drag`
+ * is the drag force per unit mass, signed along the speed. `direction`, when
+ * given, fixes the direction of motion kinetic friction acts against instead
+ * of the sign of the speed.
+ */
+export function slopeAcceleration(
+  incline: InclineParams,
+  gravity: number,
+  speed: number,
+  drag: number,
+  direction = Math.abs(speed) > STILL_SPEED ? Math.sign(speed) : 0
+): number {
+  const angle = radians(incline.angle);
+  const pull = gravity * Math.sin(angle) - drag;
+  if (rolls(incline)) return pull / (1 + BALL_INERTIA);
+
+  const normal = gravity * Math.cos(angle);
+  if (direction !== 0) return pull - direction * incline.kineticFriction * normal;
+
+  // At rest static friction balances the pull up to its limit; beyond it the
+  // object breaks away and kinetic friction takes over
+  if (Math.abs(pull) <= incline.staticFriction * normal) return 0;
+  return pull - Math.sign(pull) * incline.kineticFriction * normal;
+}
@@ -0,0 +1,124 @@
+/**
+ * Fixed-step integrators for the equation of motion x'' = a(x, v) in the
+ * vertical plane. Each one takes the current kinematics and returns the
+ * kinematics one step `h` later, so they can be swapped freely inside the
+ * engine.
+ */
+
+export interface Kinematics {
+  // Vertical, down positive
+  displacement: number;
+  velocity: number;
+  // Horizontal; both stay zero in a purely vertical fall
+  x: number;
+  horizontalVelocity: number;
+}
+
+export interface Acceleration {
+  vertical: number;
+  horizontal: number;
+}
+
+export type AccelerationFn = (state: Kinematics) => Acceleration;
+
+export type Integrator = (state: Kinematics, h: number, acceleration: AccelerationFn) => Kinematics;
+
+export type NumericIntegrator = 'euler' | 'semiImplicitEuler' | 'verlet' | 'rk4';
+
+// 'analytic' uses the closed-form solution instead of stepping
+export type IntegratorKind = 'analytic' | NumericIntegrator;
+
+// Time derivative of the state, laid out like the state itself
+function derivative(state: Kinematics, acceleration: AccelerationFn): Kinematics {
+  const a = acceleration(state);
+  return {
+    displacement: state.velocity,
+    velocity: a.vertical,
+    x: state.horizontalVelocity,
+    horizontalVelocity: a.horizontal
+  };
+}
+
+// state + rate·h, component by component
+function offset(state: Kinematics, rate: Kinematics, h: number): Kinematics {
+  return {
+    displacement: state.displacement + rate.displacement * h,
+    velocity: state.velocity + rate.velocity * h,
+    x: state.x + rate.x * h,
+    horizontalVelocity: state.horizontalVelocity + rate.horizontalVelocity * h
+  };
+}
+
+const euler: Integrator = (state, h, acceleration) => offset(state, derivative(state, acceleration), h);
+
+const semiImplicitEuler: Integrator = (state, h, acceleration) => {
+  const a = acceleration(state);
+  const velocity = state.velocity + a.vertical * h;
+  const horizontalVelocity = state.horizontalVelocity + a.horizontal * h;
+  return {
+    displacement: state.displacement + velocity * h,
+    velocity,
+    x: state.x + horizontalVelocity * h,
+    horizontalVelocity
+  };
+};
+
+// Velocity Verlet; the end-of-step acceleration uses a predicted velocity
+// because drag depends on v
+const verlet: Integrator = (state, h, acceleration) => {
+  const a0 = acceleration(state);
+  const moved: Kinematics = {
+    displacement: state.displacement + state.velocity * h + 0.5 * a0.vertical * h * h,
+    velocity: state.velocity + a0.vertical * h,
+    x: state.x + state.horizontalVelocity * h + 0.5 * a0.horizontal * h * h,
+    horizontalVelocity: state.horizontalVelocity + a0.horizontal * h
+  };
+  const a1 = acceleration(moved);
+  return {
+    ...moved,
+    velocity: state.velocity + 0.5 * (a0.vertical + a1.vertical) * h,
+    horizontalVelocity: state.horizontalVelocity + 0.5 * (a0.horizontal + a1.horizontal) * h
+  };
+};
+
+const rk4: Integrator = (state, h, acceleration) => {
+  const k1 = derivative(state, acceleration);
+  const k2 = derivative(offset(state, k1, 0.5 * h), acceleration);
+  const k3 = derivative(offset(state, k2, 0.5 * h), acceleration);
+  const k4 = derivative(offset(state, k3, h), acceleration);
+
+  const slope = offset(offset(offset(k1, k2, 2), k3, 2), k4, 1);
+  return offset(state, slope, h / 6);
+};
+
+export const INTEGRATORS: Record<NumericIntegrator, { color: string; step: Integrator }> = {
+  euler: { color: '#F87171', step: euler },
+  semiImplicitEuler: { color: '#FBBF24', step: semiImplicitEuler },
+  verlet: { color: '#34D399', step: verlet },
+  rk4: { color: '#E600FF', step: rk4 }
+};
+
+export const INTEGRATOR_OPTIONS: IntegratorKind[] = ['analytic', ...(Object.keys(INTEGRATORS) as NumericIntegrator[])];
+
+/**
+ * Advances `dt` seconds using steps no longer than `h`. The last step is
+ * shortened so the result lands exactly on `dt`.
+ */
+export function integrate(
+  integrator: Integrator,
+  state: Kinematics,
+  dt: number,
+  h: number,
+  acceleration: AccelerationFn
+): Kinematics {
+  let current = state;
+  let remaining = dt;
+
+  while (remaining > 1e-12) {
+    const stepSize = Math.min(h, remaining);
+    current = integrator(current, stepSize, acceleration);
+    remaining -= stepSize;
+  }
+
+  return current;
+}
@@ -0,0 +1,81 @@
+/**
+ * Flight previews. The whole motion is run ahead of time so the canvas can
+ * draw the path before the object gets there and the range, apex and time of
+ * flight can be reported from the start.
+ */
+
+import { SimulationParams, SimulationState, createState, step } from './engine';
+
+export interface TrajectoryPoint {
+  x: number;
+  height: number;
+}
+
+// Measured up to the first impact
+export interface FlightSummary {
+  flightTime: number;
+  // Horizontal distance from the launch point (m)
+  range: number;
+  // Highest point, or the launch point when the object starts downwards
+  apex: TrajectoryPoint;
+  apexTime: number;
+}
+
+export interface FlightPreview {
+  path: TrajectoryPoint[];
+  // Null if the object is still in the air after `maxTime`
+  summary: FlightSummary | null;
+  // When the object comes to rest, or `maxTime`
+  duration: number;
+}
+
+// Bisection rounds used to locate the apex inside a step
+const APEX_ITERATIONS = 40;
+
+// Moment the vertical velocity turns from upwards to downwards within a step
+function findApex(state: SimulationState, dt: number): SimulationState {
+  let low = 0;
+  let high = dt;
+  for (let i = 0; i < APEX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (step(state, mid).velocity < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return step(state, low);
+}
+
+/**
+ * Runs the motion in steps of `dt` until the object comes to rest, bounces
+ * included. The summary covers the first flight only.
+ */
+export function previewFlight(params: SimulationParams, dt = 0.02, maxTime = 600): FlightPreview {
+  let state = createState(params);
+  const path: TrajectoryPoint[] = [{ x: state.x, height: state.height }];
+  let apex = state;
+  let summary: FlightSummary | null = null;
+
+  while (!state.landed && state.time < maxTime) {
+    const next = step(state, dt);
+
+    if (!summary && state.velocity < 0 && next.velocity >= 0) {
+      apex = findApex(state, next.time - state.time);
+    }
+
+    if (!summary && next.impact) {
+      summary = {
+        flightTime: next.time,
+        range: next.x - params.initialX,
+        apex: { x: apex.x, height: apex.height },
+        apexTime: apex.time
+      };
+    }
+
+    state = next;
+    path.push({ x: state.x, height: state.height });
+  }
+
+  return { path, summary, duration: state.time };
+}
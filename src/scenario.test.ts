@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, MAX_OBJECTS, createObject } from './objects';
+import { Scenario, keepLocked, parseScenario, scenarioToQuery } from './scenario';
+
+const defaultName = (id: number) => `Object ${id}`;
+
+const parse = (query: string) => parseScenario(new URLSearchParams(query), defaultName);
+
+describe('links', () => {
+  it('reads back the scenario it wrote', () => {
+    const scenario: Scenario = {
+      settings: { mode: 'projectile', integrator: 'rk4', timeStep: 0.005 },
+      objects: [
+        createObject(1, defaultName(1), { initialHeight: 35, mass: 4, restitution: 0.6 }),
+        createObject(2, defaultName(2), {
+          planet: 'moon',
+          gravity: 1.62,
+          bodyRadius: 1737400,
+          drag: { model: 'quadratic', linearCoefficient: 0.1, dragCoefficient: 0.8, area: 0.2, fluidDensity: 0 }
+        })
+      ]
+    };
+    const linked = parse(scenarioToQuery(scenario));
+
+    expect(linked.ignored).toEqual([]);
+    expect(linked.scenario).toEqual(scenario);
+  });
+
+  it('returns null for a query without a scenario', () => {
+    expect(parse('utm_source=mail')).toBeNull();
+  });
+
+  it('drops invalid values one by one and keeps the rest', () => {
+    const linked = parse('mode=sideways&height=50&height=-3&mass=2&mass=abc&velocity=');
+
+    expect(linked.ignored.sort()).toEqual(['height', 'mass', 'mode', 'velocity']);
+    expect(linked.scenario.settings.mode).toBe(DEFAULT_SETTINGS.mode);
+    expect(linked.scenario.objects.map(object => object.initialHeight)).toEqual([50, createObject(2, '').initialHeight]);
+    expect(linked.scenario.objects.map(object => object.mass)).toEqual([2, createObject(2, '').mass]);
+    expect(linked.scenario.objects[0].initialVelocity).toBe(0);
+  });
+
+  it('clamps the object count', () => {
+    expect(parse('objects=99').scenario.objects).toHaveLength(MAX_OBJECTS);
+    expect(parse('objects=0').scenario.objects).toHaveLength(1);
+    expect(parse('objects=1.5&mass=1&mass=2').scenario.objects).toHaveLength(2);
+  });
+});
+
+describe('keepLocked', () => {
+  const current: Scenario = {
+    settings: { ...DEFAULT_SETTINGS, integrator: 'euler' },
+    objects: [createObject(1, 'Ball', { initialHeight: 10, mass: 2 })]
+  };
+  const next: Scenario = {
+    settings: { mode: 'projectile', integrator: 'rk4', timeStep: 0.02 },
+    objects: [
+      createObject(1, 'Stone', { initialHeight: 80, mass: 7 }),
+      createObject(2, 'Feather', { initialHeight: 80, mass: 0.1 })
+    ]
+  };
+
+  it('keeps the locked settings and object fields', () => {
+    const kept = keepLocked(next, current, ['integrator', 'height', 'objects']);
+
+    expect(kept.settings).toEqual({ mode: 'projectile', integrator: 'euler', timeStep: 0.02 });
+    expect(kept.objects).toHaveLength(1);
+    expect(kept.objects[0]).toMatchObject({ name: 'Stone', initialHeight: 10, mass: 7 });
+  });
+
+  it('takes everything from the next scenario when nothing is locked', () => {
+    expect(keepLocked(next, current, [])).toEqual(next);
+  });
+});
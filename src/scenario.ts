@@ -0,0 +1,252 @@
+/**
+ * Scenarios in the URL query, so a setup can be shared as a link and survives
+ * a reload. Shared settings are single parameters; every object field is a
+ * repeated parameter with one value per object, e.g. ?mass=1&mass=5.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_SETTINGS, MAX_OBJECTS, MOTION_MODES, MotionMode, SharedSettings, SimObject, createObject } from './objects';
+import { BUILT_IN_BODIES, findBody } from './bodies';
+import { DRAG_MODELS, DragModel, NO_DRAG } from './physics/drag';
+import { GRAVITY_MODELS, GravityModel } from './physics/gravity';
+import { DEFAULT_INCLINE, INCLINE_SHAPES, InclineShape } from './physics/incline';
+import { INTEGRATOR_OPTIONS, IntegratorKind } from './physics/integrators';
+import { PARAMETER_FIELDS, ParameterKey } from './parameters';
+
+export interface Scenario {
+  settings: SharedSettings;
+  objects: SimObject[];
+}
+
+export interface LinkedScenario {
+  scenario: Scenario;
+  // Parameters that failed validation and fell back to their defaults
+  ignored: string[];
+}
+
+// Same bounds as the inputs in the control panel. An empty value such as
+// ?velocity= is rejected rather than read as 0.
+const number = (key: ParameterKey) => {
+  const { min, max } = PARAMETER_FIELDS[key];
+  return z.string().trim().min(1).pipe(z.coerce.number().finite().min(min).max(max)).optional();
+};
+
+const settingsShape = {
+  mode: z.enum(MOTION_MODES as [MotionMode, ...MotionMode[]]).optional(),
+  integrator: z.enum(INTEGRATOR_OPTIONS as [IntegratorKind, ...IntegratorKind[]]).optional(),
+  dt: number('dt')
+};
+
+const objectShape = {
+  height: number('height'),
+  velocity: number('velocity'),
+  launchSpeed: number('launchSpeed'),
+  angle: number('angle'),
+  x: number('x'),
+  mass: number('mass'),
+  // User bodies from another browser are unknown here, so any id is kept
+  planet: z.string().regex(/^[\w-]{1,64}$/).optional(),
+  gravity: number('gravity'),
+  gravityModel: z.enum(GRAVITY_MODELS as [GravityModel, ...GravityModel[]]).optional(),
+  radius: number('radius'),
+  restitution: number('restitution'),
+  drag: z.enum(DRAG_MODELS as [DragModel, ...DragModel[]]).optional(),
+  b: number('b'),
+  cd: number('cd'),
+  area: number('area'),
+  density: number('density'),
+  slope: number('slope'),
+  mus: number('mus'),
+  muk: number('muk'),
+  shape: z.enum(INCLINE_SHAPES as [InclineShape, ...InclineShape[]]).optional()
+};
+
+const scenarioSchema = z.object({
+  ...settingsShape,
+  objects: z.array(z.object(objectShape))
+});
+
+type SettingsKey = keyof typeof settingsShape;
+type ObjectKey = keyof typeof objectShape;
+type ObjectFields = z.infer<z.ZodObject<typeof objectShape>>;
+
+const SETTINGS_KEYS = Object.keys(settingsShape) as SettingsKey[];
+const OBJECT_KEYS = Object.keys(objectShape) as ObjectKey[];
+
+function settingsFields(settings: SharedSettings): Record<SettingsKey, string | number> {
+  return { mode: settings.mode, integrator: settings.integrator, dt: settings.timeStep };
+}
+
+function objectFields(object: SimObject): Required<ObjectFields> {
+  return {
+    height: object.initialHeight,
+    velocity: object.initialVelocity,
+    launchSpeed: object.launchSpeed,
+    angle: object.launchAngle,
+    x: object.initialX,
+    mass: object.mass,
+    planet: object.planet,
+    gravity: object.gravity,
+    gravityModel: object.gravityModel,
+    radius: object.bodyRadius,
+    restitution: object.restitution,
+    drag: object.drag.model,
+    b: object.drag.linearCoefficient,
+    cd: object.drag.dragCoefficient,
+    area: object.drag.area,
+    density: object.drag.fluidDensity,
+    slope: object.incline.angle,
+    mus: object.incline.staticFriction,
+    muk: object.incline.kineticFriction,
+    shape: object.incline.shape
+  };
+}
+
+// Missing fields come from createObject or the built-in body; undefined
+// values must not overwrite them
+function objectFrom(id: number, name: string, fields: ObjectFields): SimObject {
+  const base = createObject(id, name);
+  const pick = <T>(value: T | undefined, fallback: T) => value ?? fallback;
+  const body = findBody(BUILT_IN_BODIES, pick(fields.planet, base.planet));
+
+  return {
+    ...base,
+    initialHeight: pick(fields.height, base.initialHeight),
+    initialVelocity: pick(fields.velocity, base.initialVelocity),
+    launchSpeed: pick(fields.launchSpeed, base.launchSpeed),
+    launchAngle: pick(fields.angle, base.launchAngle),
+    initialX: pick(fields.x, base.initialX),
+    mass: pick(fields.mass, base.mass),
+    planet: pick(fields.planet, base.planet),
+    gravity: pick(fields.gravity, body?.gravity ?? base.gravity),
+    gravityModel: pick(fields.gravityModel, base.gravityModel),
+    bodyRadius: pick(fields.radius, body?.radius ?? base.bodyRadius),
+    restitution: pick(fields.restitution, base.restitution),
+    drag: {
+      model: pick(fields.drag, NO_DRAG.model),
+      linearCoefficient: pick(fields.b, NO_DRAG.linearCoefficient),
+      dragCoefficient: pick(fields.cd, NO_DRAG.dragCoefficient),
+      area: pick(fields.area, NO_DRAG.area),
+      // Without a density the body's own atmosphere applies, as when the
+      // body is picked in the UI
+      fluidDensity: pick(fields.density, body?.atmosphereDensity ?? NO_DRAG.fluidDensity)
+    },
+    incline: {
+      angle: pick(fields.slope, DEFAULT_INCLINE.angle),
+      staticFriction: pick(fields.mus, DEFAULT_INCLINE.staticFriction),
+      kineticFriction: pick(fields.muk, DEFAULT_INCLINE.kineticFriction),
+      shape: pick(fields.shape, DEFAULT_INCLINE.shape)
+    }
+  };
+}
+
+/**
+ * Only values that differ from the defaults are written, which keeps links
+ * short. An object field is written for every object as soon as one of them
+ * differs, so the repeated values stay aligned.
+ */
+export function scenarioToQuery(scenario: Scenario): string {
+  const params = new URLSearchParams();
+
+  const settings = settingsFields(scenario.settings);
+  const defaultSettings = settingsFields(DEFAULT_SETTINGS);
+  SETTINGS_KEYS.forEach(key => {
+    if (settings[key] !== defaultSettings[key]) params.set(key, String(settings[key]));
+  });
+
+  const objects = scenario.objects.map(objectFields);
+  const defaults = objectFields(createObject(1, ''));
+  OBJECT_KEYS.forEach(key => {
+    if (objects.some(fields => fields[key] !== defaults[key])) {
+      objects.forEach(fields => params.append(key, String(fields[key])));
+    }
+  });
+
+  // A single default object still needs a marker, or the link would look
+  // empty and say nothing about the object count
+  if (params.toString() === '' || objects.length > 1) {
+    params.set('objects', String(objects.length));
+  }
+
+  return params.toString();
+}
+
+/**
+ * Reads a scenario from the query. Returns null when the query holds no
+ * scenario at all. Invalid values are dropped one by one and reported, so a
+ * hand-edited link still loads everything else.
+ */
+export function parseScenario(params: URLSearchParams, defaultName: (id: number) => string): LinkedScenario | null {
+  const keys = [...SETTINGS_KEYS, ...OBJECT_KEYS, 'objects'];
+  if (!keys.some(key => params.has(key))) return null;
+
+  const declared = Number(params.get('objects'));
+  const listed = Math.max(0, ...OBJECT_KEYS.map(key => params.getAll(key).length));
+  const count = Math.min(MAX_OBJECTS, Math.max(1, listed, Number.isInteger(declared) ? declared : 0));
+
+  const input = {
+    ...Object.fromEntries(SETTINGS_KEYS.flatMap(key => params.has(key) ? [[key, params.get(key)]] : [])),
+    objects: Array.from({ length: count }, (_, index) => Object.fromEntries(
+      OBJECT_KEYS.flatMap(key => {
+        const value = params.getAll(key)[index];
+        return value === undefined ? [] : [[key, value]];
+      })
+    ))
+  };
+
+  const ignored = new Set<string>();
+  let result = scenarioSchema.safeParse(input);
+  if (!result.success) {
+    result.error.issues.forEach(({ path }) => {
+      const key = path[path.length - 1];
+      if (path[0] === 'objects' && path.length === 3) {
+        delete input.objects[path[1] as number][key];
+      } else {
+        delete input[key];
+      }
+      ignored.add(String(key));
+    });
+    result = scenarioSchema.safeParse(input);
+  }
+  if (!result.success) return null;
+
+  const { objects, ...shared } = result.data;
+  return {
+    scenario: {
+      settings: {
+        mode: shared.mode ?? DEFAULT_SETTINGS.mode,
+        integrator: shared.integrator ?? DEFAULT_SETTINGS.integrator,
+        timeStep: shared.dt ?? DEFAULT_SETTINGS.timeStep
+      },
+      objects: objects.map((fields, index) => objectFrom(index + 1, defaultName(index + 1), fields))
+    },
+    ignored: [...ignored]
+  };
+}
+
+/**
+ * `next` with the keys a lesson locks taken from `current`, so nothing
+ * loaded during the lesson changes them. A locked 'objects' keeps the
+ * current number of objects.
+ */
+export function keepLocked(next: Scenario, current: Scenario, locked: string[]): Scenario {
+  const isLocked = (key: string) => locked.includes(key);
+  const count = isLocked('objects') ? current.objects.length : next.objects.length;
+
+  return {
+    settings: {
+      mode: isLocked('mode') ? current.settings.mode : next.settings.mode,
+      integrator: isLocked('integrator') ? current.settings.integrator : next.settings.integrator,
+      timeStep: isLocked('dt') ? current.settings.timeStep : next.settings.timeStep
+    },
+    objects: Array.from({ length: count }, (_, index) => {
+      const object = next.objects[index] ?? current.objects[index];
+      const own = objectFields(current.objects[Math.min(index, current.objects.length - 1)]);
+      const fields = {
+        ...objectFields(object),
+        ...Object.fromEntries(OBJECT_KEYS.filter(isLocked).map(key => [key, own[key]]))
+      };
+      return objectFrom(index + 1, object.name, fields);
+    })
+  };
+}
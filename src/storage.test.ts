@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState, advance, createState } from './physics/engine';
+import { DEFAULT_SETTINGS, createObject, toSimulationParams } from './objects';
+import { SavedRunV1, migrateRun, restoreStates } from './storage';
+
+// Every sample of a run to rest, as version 1 saved it
+function record(restitution: number): SimulationState[] {
+  const params = toSimulationParams(createObject(1, 'Ball', { initialHeight: 12, restitution }), DEFAULT_SETTINGS);
+  const start = createState(params);
+  return [start, ...advance(start, 60, 0.05).samples];
+}
+
+describe('saved runs', () => {
+  it('migrates version 1 runs to parameters and samples', () => {
+    const states = [record(0), record(0.7)];
+    const v1: SavedRunV1 = { id: 'run', name: 'Drop', savedAt: 1700000000000, query: 'height=12', states };
+
+    const run = migrateRun(v1);
+
+    expect(run).toMatchObject({ id: 'run', name: 'Drop', savedAt: 1700000000000, query: 'height=12' });
+    expect(run).not.toHaveProperty('states');
+    expect(run.objects).toHaveLength(2);
+    run.objects.forEach((object, index) => {
+      expect(object.params).toEqual(states[index][0].params);
+      expect(object.samples).toHaveLength(states[index].length);
+      expect(object.samples[object.samples.length - 1]).toMatchObject({ landed: true, height: 0, velocity: 0 });
+    });
+    expect(run.objects[1].samples.filter(sample => sample.impact).length).toBeGreaterThan(1);
+  });
+
+  it('restores the recorded states from the samples', () => {
+    const states = record(0.7);
+    const run = migrateRun({ id: 'run', name: null, savedAt: 0, query: '', states: [states] });
+
+    const restored = restoreStates(run.objects[0]);
+
+    expect(restored).toHaveLength(states.length);
+    restored.forEach((state, index) => {
+      const { displacement, ...rest } = states[index];
+      expect(state).toEqual({ ...rest, displacement: expect.any(Number) });
+      expect(state.displacement).toBeCloseTo(displacement, 9);
+    });
+  });
+
+  it('drops version 1 runs with an object that has no samples', () => {
+    expect(migrateRun({ id: 'run', name: null, savedAt: 0, query: '', states: [record(0), []] })).toBeNull();
+  });
+});
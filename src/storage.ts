@@ -0,0 +1,182 @@
+/**
+ * Saved scenarios and recorded runs, kept in IndexedDB since a single run can
+ * hold thousands of samples. Scenarios are stored as their URL query, so
+ * loading one goes through the same validation as a shared link.
+ */
+
+import { ImpactEvent, SimulationParams, SimulationState, createState } from './physics/engine';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: number;
+  query: string;
+}
+
+/**
+ * One recorded engine state without what repeats from sample to sample: the
+ * parameters, the impacts so far and the current flight all follow from the
+ * object's parameters and the impacts of the earlier samples.
+ */
+export interface SavedSample {
+  time: number;
+  height: number;
+  velocity: number;
+  acceleration: number;
+  x: number;
+  horizontalVelocity: number;
+  landed: boolean;
+  impact: ImpactEvent | null;
+}
+
+export interface SavedRunObject {
+  params: SimulationParams;
+  samples: SavedSample[];
+}
+
+export interface SavedRun {
+  id: string;
+  // null until the user names it; the list shows the date instead
+  name: string | null;
+  savedAt: number;
+  query: string;
+  // In the order of the objects in the query
+  objects: SavedRunObject[];
+}
+
+// A run as version 1 stored it, with every object's raw engine states
+export type SavedRunV1 = Omit<SavedRun, 'objects'> & { states: SimulationState[][] };
+
+type StoreName = 'scenarios' | 'runs';
+
+const DB_NAME = 'freefall';
+// Version 2 stores runs as SavedRunObjects instead of raw engine states
+const DB_VERSION = 2;
+
+// Older runs are dropped beyond this, so the history cannot grow unbounded
+export const MAX_SAVED_RUNS = 20;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function open(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore('scenarios', { keyPath: 'id' });
+        request.result.createObjectStore('runs', { keyPath: 'id' });
+        return;
+      }
+
+      // Runs saved as raw states are compacted in place
+      if (event.oldVersion < 2) {
+        const cursor = request.transaction.objectStore('runs').openCursor();
+        cursor.onsuccess = () => {
+          if (!cursor.result) return;
+          const run = migrateRun(cursor.result.value as SavedRunV1);
+          if (run) {
+            cursor.result.update(run);
+          } else {
+            cursor.result.delete();
+          }
+          cursor.result.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // A failed open is retried on the next call, e.g. after a blocked upgrade
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+async function transaction<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await open();
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function toSavedRunObject(params: SimulationParams, states: SimulationState[]): SavedRunObject {
+  return {
+    params,
+    samples: states.map(({ time, height, velocity, acceleration, x, horizontalVelocity, landed, impact }) => (
+      { time, height, velocity, acceleration, x, horizontalVelocity, landed, impact }
+    ))
+  };
+}
+
+// null when an object has no samples, as it then has no parameters to keep
+export function migrateRun({ states, ...run }: SavedRunV1): SavedRun | null {
+  if (!states.every(list => list.length > 0)) return null;
+  return { ...run, objects: states.map(list => toSavedRunObject(list[0].params, list)) };
+}
+
+// The engine states as they were recorded; every impact starts a new flight
+export function restoreStates({ params, samples }: SavedRunObject): SimulationState[] {
+  let { segment } = createState(params);
+  let impacts: ImpactEvent[] = [];
+
+  return samples.map(sample => {
+    const displacement = params.initialHeight - sample.height;
+    if (sample.impact) {
+      impacts = [...impacts, sample.impact];
+      segment = {
+        time: sample.time,
+        displacement,
+        velocity: sample.velocity,
+        x: sample.x,
+        horizontalVelocity: sample.horizontalVelocity
+      };
+    }
+    return { ...sample, params, displacement, segment, impacts };
+  });
+}
+
+export function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Newest first, as the lists show them
+async function list<T extends { savedAt: number }>(store: StoreName): Promise<T[]> {
+  const items = await transaction<T[]>(store, 'readonly', objects => objects.getAll());
+  return items.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export function listScenarios(): Promise<SavedScenario[]> {
+  return list<SavedScenario>('scenarios');
+}
+
+export function listRuns(): Promise<SavedRun[]> {
+  return list<SavedRun>('runs');
+}
+
+export async function putScenario(scenario: SavedScenario): Promise<void> {
+  await transaction('scenarios', 'readwrite', objects => objects.put(scenario));
+}
+
+export async function putRun(run: SavedRun): Promise<void> {
+  await transaction('runs', 'readwrite', objects => objects.put(run));
+
+  const runs = await listRuns();
+  await Promise.all(runs.slice(MAX_SAVED_RUNS).map(({ id }) => deleteRun(id)));
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await transaction('scenarios', 'readwrite', objects => objects.delete(id));
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await transaction('runs', 'readwrite', objects => objects.delete(id));
+}
@@ -0,0 +1,18 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Units, UnitsContext } from '../hooks/use-units';
+import { UnitChoice, createUnitConverter, loadUnits, saveUnits } from '.';
+
+function UnitsProvider({ children }: { children: React.ReactNode }) {
+  const [choice, setChoiceState] = useState<UnitChoice>(loadUnits);
+
+  const setUnits = useCallback((next: UnitChoice) => {
+    setChoiceState(next);
+    saveUnits(next);
+  }, []);
+
+  const value = useMemo<Units>(() => ({ ...createUnitConverter(choice), setUnits }), [choice, setUnits]);
+
+  return <UnitsContext.Provider value={value}>{children}</UnitsContext.Provider>;
+}
+
+export default UnitsProvider;
@@ -0,0 +1,119 @@
+/**
+ * Display units. The engine works in SI throughout; values are converted
+ * only where they are typed in or shown, including the CSV export. A unit
+ * choice picks one unit per quantity: the SI or imperial preset, or any mix.
+ */
+
+export type UnitQuantity = 'length' | 'speed' | 'acceleration' | 'mass';
+
+export const UNIT_QUANTITIES: UnitQuantity[] = ['length', 'speed', 'acceleration', 'mass'];
+
+export interface Unit {
+  symbol: string;
+  // Size of one unit in SI, e.g. 0.3048 for a foot
+  size: number;
+}
+
+// Standard gravity, for accelerations given in multiples of g
+export const STANDARD_GRAVITY = 9.80665;
+
+export const UNITS: Record<UnitQuantity, Unit[]> = {
+  length: [
+    { symbol: 'm', size: 1 },
+    { symbol: 'ft', size: 0.3048 }
+  ],
+  speed: [
+    { symbol: 'm/s', size: 1 },
+    { symbol: 'km/h', size: 1 / 3.6 },
+    { symbol: 'ft/s', size: 0.3048 },
+    { symbol: 'mph', size: 0.44704 }
+  ],
+  acceleration: [
+    { symbol: 'm/s²', size: 1 },
+    { symbol: 'ft/s²', size: 0.3048 },
+    { symbol: 'g', size: STANDARD_GRAVITY }
+  ],
+  mass: [
+    { symbol: 'kg', size: 1 },
+    { symbol: 'lb', size: 0.45359237 }
+  ]
+};
+
+// Symbol of the chosen unit per quantity
+export type UnitChoice = Record<UnitQuantity, string>;
+
+export type UnitSystem = 'si' | 'imperial' | 'custom';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['si', 'imperial', 'custom'];
+
+export const UNIT_PRESETS: Record<Exclude<UnitSystem, 'custom'>, UnitChoice> = {
+  si: { length: 'm', speed: 'm/s', acceleration: 'm/s²', mass: 'kg' },
+  imperial: { length: 'ft', speed: 'ft/s', acceleration: 'ft/s²', mass: 'lb' }
+};
+
+export const DEFAULT_UNITS = UNIT_PRESETS.si;
+
+export function findUnit(quantity: UnitQuantity, symbol: string): Unit | undefined {
+  return UNITS[quantity].find(unit => unit.symbol === symbol);
+}
+
+// The preset a choice matches, or 'custom' for a mix
+export function systemOf(choice: UnitChoice): UnitSystem {
+  const preset = (Object.keys(UNIT_PRESETS) as Exclude<UnitSystem, 'custom'>[])
+    .find(key => UNIT_QUANTITIES.every(quantity => UNIT_PRESETS[key][quantity] === choice[quantity]));
+  return preset ?? 'custom';
+}
+
+export interface UnitConverter {
+  choice: UnitChoice;
+  symbol: (quantity: UnitQuantity) => string;
+  // SI value in the chosen unit
+  toDisplay: (quantity: UnitQuantity, value: number) => number;
+  // Value in the chosen unit back to SI
+  fromDisplay: (quantity: UnitQuantity, value: number) => number;
+}
+
+/**
+ * Displayed values are rounded to 12 significant digits, so a value typed in
+ * feet comes back into its input as typed rather than with float noise.
+ */
+export function createUnitConverter(choice: UnitChoice): UnitConverter {
+  const sizeOf = (quantity: UnitQuantity) => (findUnit(quantity, choice[quantity]) ?? UNITS[quantity][0]).size;
+
+  return {
+    choice,
+    symbol: quantity => choice[quantity],
+    toDisplay: (quantity, value) => {
+      const converted = value / sizeOf(quantity);
+      return Number.isFinite(converted) ? parseFloat(converted.toPrecision(12)) : converted;
+    },
+    fromDisplay: (quantity, value) => value * sizeOf(quantity)
+  };
+}
+
+const STORAGE_KEY = 'freefall.units';
+
+// Unknown or missing symbols, e.g. from an older version, fall back to SI
+export function loadUnits(): UnitChoice {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved && typeof saved === 'object') {
+      const record = saved as Record<string, unknown>;
+      return Object.fromEntries(UNIT_QUANTITIES.map(quantity => {
+        const symbol = record[quantity];
+        return [quantity, typeof symbol === 'string' && findUnit(quantity, symbol) ? symbol : DEFAULT_UNITS[quantity]];
+      })) as UnitChoice;
+    }
+  } catch {
+    // Storage can be blocked, e.g. in private windows
+  }
+  return DEFAULT_UNITS;
+}
+
+export function saveUnits(choice: UnitChoice) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(choice));
+  } catch {
+    // The choice then only lasts for this session
+  }
+}